@@ -1,5 +1,8 @@
 import React, { useState } from 'react';
 import ControlPanel from './components/ControlPanel';
+import SectionEditor from './components/SectionEditor';
+import InfluenceLineView from './components/InfluenceLineView';
+import TransientView from './components/TransientView';
 import BeamVisualizer from './components/BeamVisualizer';
 import RightPanel from './components/RightPanel';
 import AIAssistant from './components/AIAssistant';
@@ -13,23 +16,66 @@ const defaultParams: SimulationParams = {
     height: 0.5,
     force: -50000,
     youngsModulus: 200e9,
+    poissonsRatio: 0.3,
     yieldStrength: 250e6,
+    density: 7850,
+    materialId: null,
     meshDensityX: 40,
     meshDensityY: 8,
     deformationScale: 50,
+    analysisModel: 'beamTheory',
+    beamFormulation: 'eulerBernoulli',
     beamType: 'simplySupported',
     loadPosition: 4,
     
     // New Params
     supportA: 1,
     supportB: 7,
+    supports: [
+        { type: 'pin', x: 0 },
+        { type: 'roller', x: 4 },
+        { type: 'roller', x: 8 }
+    ],
     customLoads: [],
+    includeSelfWeight: false,
+    loadCombinations: [],
+    activeCombination: null,
+    influenceStation: 4,
+    axleLoads: [
+        { offset: 0, load: 50000 },
+        { offset: 3, load: 50000 }
+    ],
+    modeCount: 5,
+    vibrationLimit: 3,
+    animatedMode: null,
+    transient: {
+        loadType: 'harmonic',
+        amplitude: 10000,
+        x: 4,
+        frequency: 5,
+        pulseDuration: 0.05,
+        series: [],
+        dampingRatio: 0.02,
+        duration: 2,
+        timeStep: 0.002,
+        stations: [2, 4],
+        animate: false
+    },
 
     sectionType: 'rectangular',
     sectionWidth: 0.2,
     flangeWidth: 0.3,
     flangeThickness: 0.02,
     webThickness: 0.015,
+    wallThickness: 0.01,
+    steelShape: null,
+    lateralBraces: [],
+    unbracedLength: null,
+    customSection: [{
+        id: 'outline',
+        points: [{ x: -0.1, y: 0 }, { x: 0.1, y: 0 }, { x: 0.1, y: 0.5 }, { x: -0.1, y: 0.5 }],
+        isHole: false
+    }],
     
     // --- Bearing Defaults ---
     mode: 'beam',
@@ -43,7 +89,7 @@ const defaultParams: SimulationParams = {
     }
 };
 
-type AppMode = 'stress' | 'diagram';
+type AppMode = 'stress' | 'diagram' | 'influence' | 'transient' | 'section';
 
 const App: React.FC = () => {
     // Manage list of simulations
@@ -125,6 +171,27 @@ const App: React.FC = () => {
                     >
                         工程圖表分析 (V-M Diagrams)
                     </button>
+                    <button 
+                        onClick={() => setViewMode('influence')}
+                        className={`text-sm font-bold px-4 py-1.5 rounded-full transition-all 
+                            ${viewMode === 'influence' ? 'bg-amber-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        影響線 (Influence Lines)
+                    </button>
+                    <button 
+                        onClick={() => setViewMode('transient')}
+                        className={`text-sm font-bold px-4 py-1.5 rounded-full transition-all 
+                            ${viewMode === 'transient' ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        動態歷程 (Transient)
+                    </button>
+                    <button 
+                        onClick={() => setViewMode('section')}
+                        className={`text-sm font-bold px-4 py-1.5 rounded-full transition-all 
+                            ${viewMode === 'section' ? 'bg-teal-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                    >
+                        截面編輯器 (Section Editor)
+                    </button>
                 </div>
                 )}
                 
@@ -176,7 +243,7 @@ const App: React.FC = () => {
                                 )
                             ))}
                         </div>
-                    ) : (
+                    ) : viewMode === 'diagram' ? (
                         // Diagram View
                         <div className="flex-1 overflow-hidden">
                             <DiagramView 
@@ -184,6 +251,30 @@ const App: React.FC = () => {
                                 onChange={handleParamChange} 
                             />
                         </div>
+                    ) : viewMode === 'influence' ? (
+                        // Influence lines and moving loads
+                        <div className="flex-1 overflow-hidden">
+                            <InfluenceLineView 
+                                params={activeSim.params} 
+                                onChange={handleParamChange} 
+                            />
+                        </div>
+                    ) : viewMode === 'transient' ? (
+                        // Time-history response to dynamic loads
+                        <div className="flex-1 overflow-hidden">
+                            <TransientView 
+                                params={activeSim.params} 
+                                onChange={handleParamChange} 
+                            />
+                        </div>
+                    ) : (
+                        // Custom section editor
+                        <div className="flex-1 overflow-hidden">
+                            <SectionEditor 
+                                params={activeSim.params} 
+                                onChange={handleParamChange} 
+                            />
+                        </div>
                     )}
                     </>
                 )}
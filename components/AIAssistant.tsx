@@ -1,8 +1,19 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SimulationInstance } from '../types';
-import { calculateBeamPhysics, calculateBeamStats } from '../utils/physics';
+import { SimulationInstance, BeamType } from '../types';
+import { calculateBeamStats } from '../utils/physics';
+import { getSupports } from '../utils/beamModel';
+import { getActiveMaterial } from '../utils/materials';
 import { GoogleGenAI } from "@google/genai";
 
+const BEAM_TYPE_NAMES: Record<BeamType, string> = {
+    cantilever: '懸臂樑 (Cantilever)',
+    simplySupported: '簡支樑 (Simply Supported)',
+    overhanging: '伸出樑 (Overhanging)',
+    fixedFixed: '兩端固定樑 (Fixed-Fixed)',
+    proppedCantilever: '一端固定一端簡支 (Propped Cantilever)',
+    continuous: '連續樑 (Continuous)'
+};
+
 interface AIAssistantProps {
     activeSim: SimulationInstance;
 }
@@ -33,22 +44,24 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ activeSim }) => {
     const getSimulationContext = () => {
         const { params } = activeSim;
         // Calculate physics on the fly to get current results
-        const elements = calculateBeamPhysics(params);
-        const stats = calculateBeamStats(elements);
-        const safetyFactor = params.yieldStrength / Math.max(1, stats.maxStress);
+        const stats = calculateBeamStats(params);
+        const safetyFactor = params.yieldStrength / Math.max(1, stats.maxVonMises);
         const deflectionRatio = (params.length / Math.max(0.0001, stats.maxDeflection)); // L / delta
 
         return `
         目前模擬狀態 (Current Simulation Context):
         - 案例名稱: ${activeSim.name}
-        - 樑類型: ${params.beamType === 'cantilever' ? '懸臂樑 (Cantilever)' : '簡支樑 (Simply Supported)'}
+        - 樑類型: ${BEAM_TYPE_NAMES[params.beamType]}
+        - 支承: ${getSupports(params).map(s => `${s.type}@${s.x}m`).join(', ')}
         - 截面形狀: ${params.sectionType}
         - 尺寸: 長度 L=${params.length}m, 高度 H=${params.height}m
-        - 材料: Young's Modulus=${(params.youngsModulus/1e9).toFixed(1)}GPa, Yield Strength=${(params.yieldStrength/1e6).toFixed(0)}MPa
+        - 材料: ${getActiveMaterial(params)?.name ?? '自訂數值'}, Young's Modulus=${(params.youngsModulus/1e9).toFixed(1)}GPa, Yield Strength=${(params.yieldStrength/1e6).toFixed(0)}MPa
         - 負載: ${params.force}N 施加於位置 x=${params.loadPosition}m
         
         分析結果 (Analysis Results):
         - 最大應力 (Max Stress): ${(stats.maxStress/1e6).toFixed(2)} MPa
+        - 最大剪應力 (Max Shear Stress): ${(stats.maxShearStress/1e6).toFixed(2)} MPa
+        - von Mises 應力: ${(stats.maxVonMises/1e6).toFixed(2)} MPa
         - 安全係數 (F.O.S): ${safetyFactor.toFixed(2)} (目標建議 > 1.5)
         - 最大變位 (Max Deflection): ${(stats.maxDeflection*1000).toFixed(2)} mm
         - 變位比 (L/Δ): ${deflectionRatio.toFixed(0)} (一般建築建議 > 360)
@@ -1,6 +1,7 @@
 import React from 'react';
 import { SimulationParams } from '../types';
 import CrossSectionVisualizer from './CrossSectionVisualizer';
+import { solveBeam } from '../utils/physics';
 
 interface AnalysisOverlayProps {
     params: SimulationParams;
@@ -13,20 +14,8 @@ const AnalysisOverlay: React.FC<AnalysisOverlayProps> = ({ params, maxStress, ma
     // Calculate Safety Factor
     const safetyFactor = params.yieldStrength / Math.max(1, Math.abs(maxStress));
     
-    // Reaction Calculation (Approximate based on equilibrium)
-    let R1 = 0, R2 = 0, M1 = 0;
-    
-    if (params.beamType === 'cantilever') {
-        R1 = Math.abs(params.force); // Vertical reaction at wall
-        M1 = Math.abs(params.force * params.loadPosition); // Moment at wall
-    } else {
-        // Simple Support
-        const L = params.length;
-        const a = params.loadPosition;
-        const b = L - a;
-        R1 = Math.abs(params.force * b / L); // Left support
-        R2 = Math.abs(params.force * a / L); // Right support
-    }
+    // Support reactions from the stiffness solution (Fy < 0 means uplift)
+    const { reactions } = solveBeam(params);
 
     // Status Color for Safety Factor
     const getSafetyColor = (sf: number) => {
@@ -82,23 +71,27 @@ const AnalysisOverlay: React.FC<AnalysisOverlayProps> = ({ params, maxStress, ma
                 <div className="pt-2 border-t border-slate-800/50">
                     <span className="text-[10px] text-slate-500 block mb-1">支承反力 (Reactions)</span>
                     <div className="grid grid-cols-2 gap-y-1 gap-x-2 text-xs">
-                        <div className="flex justify-between">
-                            <span className="text-slate-400">R_left:</span>
-                            <span className="font-mono">{R1.toFixed(0)} N</span>
-                        </div>
-                        {params.beamType === 'simplySupported' && (
-                            <div className="flex justify-between">
-                                <span className="text-slate-400">R_right:</span>
-                                <span className="font-mono">{R2.toFixed(0)} N</span>
-                            </div>
-                        )}
-                        {params.beamType === 'cantilever' && (
-                             <div className="flex justify-between col-span-2">
-                                <span className="text-slate-400">M_wall:</span>
-                                <span className="font-mono">{(M1 / 1000).toFixed(1)} kN·m</span>
-                            </div>
-                        )}
+                        {reactions.map((r, i) => {
+                            const name = String.fromCharCode(65 + i);
+                            return (
+                                <React.Fragment key={i}>
+                                    <div className="flex justify-between">
+                                        <span className="text-slate-400">R_{name}:</span>
+                                        <span className={`font-mono ${r.Fy < 0 ? 'text-orange-400' : ''}`}>{r.Fy.toFixed(0)} N</span>
+                                    </div>
+                                    {r.type === 'fixed' && (
+                                        <div className="flex justify-between">
+                                            <span className="text-slate-400">M_{name}:</span>
+                                            <span className="font-mono">{(r.Mz / 1000).toFixed(1)} kN·m</span>
+                                        </div>
+                                    )}
+                                </React.Fragment>
+                            );
+                        })}
                     </div>
+                    {reactions.some(r => r.Fy < 0) && (
+                        <div className="text-[10px] text-orange-400 mt-1">負反力表示支承受上拔力 (Uplift)</div>
+                    )}
                 </div>
                 
                 {/* Cross Section Analysis */}
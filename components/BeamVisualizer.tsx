@@ -1,7 +1,45 @@
-import React, { useEffect, useRef, useMemo } from 'react';
+import React, { useEffect, useRef, useMemo, useState } from 'react';
 import * as d3 from 'd3';
-import { SimulationParams } from '../types';
-import { calculateBeamPhysics, calculateBeamStats } from '../utils/physics';
+import { SimulationParams, BeamType, StressComponent, MeshElement, NodePoint } from '../types';
+import { solveBeam, calculateBeamPhysics, calculatePlaneStressPhysics, getNodeStress, getNeutralAxisOffset } from '../utils/physics';
+import { solvePlaneStress } from '../utils/planeStress';
+import { getActiveLoads, getSupports, SELF_WEIGHT_ID } from '../utils/beamModel';
+import { calculateModes, sampleModeShape } from '../utils/modalAnalysis';
+import { calculateTransientResponse } from '../utils/transientAnalysis';
+
+const BEAM_TYPE_LABELS: Record<BeamType, string> = {
+    cantilever: 'Cantilever',
+    simplySupported: 'Simply Supported',
+    overhanging: 'Overhanging',
+    fixedFixed: 'Fixed-Fixed',
+    proppedCantilever: 'Propped Cantilever',
+    continuous: 'Continuous'
+};
+
+const STRESS_COMPONENT_LABELS: Record<StressComponent, string> = {
+    sigmaX: 'σx',
+    tauXY: 'τxy',
+    vonMises: 'von Mises',
+    sigma1: 'σ1',
+    sigma2: 'σ2'
+};
+
+// Wall-clock length of one pass through the time history
+const TRANSIENT_PLAYBACK_MS = 4000;
+
+/**
+ * Redraws the mesh with node displacements (u, v) in metres. Re-selected on every call:
+ * the static drawing effect may have rebuilt the mesh.
+ */
+const drawDisplacedMesh = (svg: SVGSVGElement, scale: number, displacement: (n: NodePoint) => { u: number; v: number }) => {
+    d3.select(svg).selectAll<SVGPathElement, MeshElement>("path.mesh").attr("d", el => {
+        const pts = [...el.nodes, el.nodes[0]].map(n => {
+            const d = displacement(n);
+            return [(n.x + d.u) * scale, -(n.y + d.v) * scale] as [number, number];
+        });
+        return d3.line()(pts);
+    });
+};
 
 interface BeamVisualizerProps {
     params: SimulationParams;
@@ -11,18 +49,41 @@ interface BeamVisualizerProps {
 const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ params, isActive = true }) => {
     const svgRef = useRef<SVGSVGElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
+    const scaleRef = useRef(1); // Drawing scale (px/m), shared with the mode animation
+
+    const [stressComponent, setStressComponent] = useState<StressComponent>('sigmaX');
 
     // Calculate physics model
-    const elements = useMemo(() => calculateBeamPhysics(params), [params]);
+    const solution = useMemo(() => solveBeam(params), [params]);
+    const planeStress = useMemo(() => params.analysisModel === 'planeStress' ? solvePlaneStress(params) : null, [params]);
+    const elements = useMemo(
+        () => planeStress ? calculatePlaneStressPhysics(params, planeStress) : calculateBeamPhysics(params, solution),
+        [params, solution, planeStress]
+    );
+
+    // Mode shape animated in place of the static deformation
+    const mode = useMemo(
+        () => params.animatedMode !== null && params.animatedMode !== undefined ? calculateModes(params).modes[params.animatedMode] ?? null : null,
+        [params]
+    );
 
-    // Calculate Stats for Color Scale
-    const stats = useMemo(() => calculateBeamStats(elements), [elements]);
+    // Time-history response played back in place of the static deformation (modes take precedence)
+    const transient = useMemo(() => {
+        if (mode || !params.transient?.animate) return null;
+        const result = calculateTransientResponse(params);
+        return result.isStable && result.frames.length > 0 ? result : null;
+    }, [params, mode]);
 
-    // Calculate Stress Range for Color Scale
+    // Element values and colour range of the selected stress component
+    const elementValues = useMemo(
+        () => elements.map(el => el.nodes.reduce((sum, n) => sum + getNodeStress(n, stressComponent), 0) / 4),
+        [elements, stressComponent]
+    );
     const { minStress, maxStress } = useMemo(() => {
-        const absMax = Math.max(stats.maxStress, 100); 
-        return { minStress: -absMax, maxStress: absMax };
-    }, [stats]);
+        const absMax = Math.max(...elements.flatMap(el => el.nodes.map(n => Math.abs(getNodeStress(n, stressComponent)))), 100);
+        // von Mises is never negative
+        return { minStress: stressComponent === 'vonMises' ? 0 : -absMax, maxStress: absMax };
+    }, [elements, stressComponent]);
 
     useEffect(() => {
         if (!svgRef.current || !containerRef.current) return;
@@ -43,6 +104,7 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ params, isActive = true
 
         // Scales
         const scaleFactor = (width - margin.left - margin.right) / (params.length * 1.1);
+        scaleRef.current = scaleFactor;
         
         // Color Scale
         const colorScale = d3.scaleSequential()
@@ -62,73 +124,77 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ params, isActive = true
                 const points = [...d.nodes, d.nodes[0]];
                 return line(points);
             })
-            .attr("fill", d => colorScale(d.avgStress))
+            .attr("fill", (_, i) => mode || transient ? '#6366f1' : colorScale(elementValues[i]))
             .attr("stroke", isActive ? "rgba(0,0,0,0.15)" : "rgba(0,0,0,0.05)")
             .attr("stroke-width", 0.5);
 
         // --- Draw Supports ---
-        if (params.beamType === 'cantilever') {
-            // Wall on Left
-            g.append("rect")
-                .attr("x", -10)
-                .attr("y", (-params.height / 2 * scaleFactor) - 10)
-                .attr("width", 10)
-                .attr("height", (params.height * scaleFactor) + 20)
-                .attr("fill", "#cbd5e1")
-                .attr("rx", 2);
-            
-            // Hatch
-            const defs = svg.append("defs");
-            const pattern = defs.append("pattern")
-                .attr("id", "hatch")
-                .attr("patternUnits", "userSpaceOnUse")
-                .attr("width", 4)
-                .attr("height", 4);
-            pattern.append("path")
-                .attr("d", "M-1,1 l2,-2 M0,4 l4,-4 M3,5 l2,-2")
-                .attr("stroke", "#94a3b8")
-                .attr("stroke-width", 1);
-            
-            g.append("rect")
-                 .attr("x", -20)
-                 .attr("y", (-params.height / 2 * scaleFactor) - 20)
-                 .attr("width", 20)
-                 .attr("height", (params.height * scaleFactor) + 40)
-                 .attr("fill", "url(#hatch)");
-        } else {
-            // Simply Supported
-            const supportSize = 15;
-            const yBase = (params.height / 2 * scaleFactor) + 2; 
-            
-            // Left Pin
-            g.append("path")
-                .attr("d", d3.line()([
-                    [0, yBase], 
-                    [-supportSize/2, yBase + supportSize], 
-                    [supportSize/2, yBase + supportSize]
-                ]))
-                .attr("fill", "#cbd5e1")
-                .attr("stroke", "#94a3b8");
-
-            // Right Roller
-            const xRight = params.length * scaleFactor;
-            g.append("circle")
-                .attr("cx", xRight)
-                .attr("cy", yBase + supportSize/2)
-                .attr("r", supportSize/2)
-                .attr("fill", "#cbd5e1")
-                .attr("stroke", "#94a3b8");
-            
+        const supports = getSupports(params);
+        const supportSize = 15;
+        const yBase = (params.height / 2 * scaleFactor) + 2; 
+
+        // Hatch pattern for fixed walls
+        const defs = svg.append("defs");
+        const pattern = defs.append("pattern")
+            .attr("id", "hatch")
+            .attr("patternUnits", "userSpaceOnUse")
+            .attr("width", 4)
+            .attr("height", 4);
+        pattern.append("path")
+            .attr("d", "M-1,1 l2,-2 M0,4 l4,-4 M3,5 l2,-2")
+            .attr("stroke", "#94a3b8")
+            .attr("stroke-width", 1);
+
+        supports.forEach(sup => {
+            const xs = sup.x * scaleFactor;
+            if (sup.type === 'fixed') {
+                // Wall faces away from the beam
+                const dir = sup.x >= params.length / 2 ? 1 : -1;
+                g.append("rect")
+                    .attr("x", dir < 0 ? xs - 10 : xs)
+                    .attr("y", (-params.height / 2 * scaleFactor) - 10)
+                    .attr("width", 10)
+                    .attr("height", (params.height * scaleFactor) + 20)
+                    .attr("fill", "#cbd5e1")
+                    .attr("rx", 2);
+                g.append("rect")
+                     .attr("x", dir < 0 ? xs - 20 : xs)
+                     .attr("y", (-params.height / 2 * scaleFactor) - 20)
+                     .attr("width", 20)
+                     .attr("height", (params.height * scaleFactor) + 40)
+                     .attr("fill", "url(#hatch)");
+            } else if (sup.type === 'pin') {
+                g.append("path")
+                    .attr("d", d3.line()([
+                        [xs, yBase], 
+                        [xs - supportSize/2, yBase + supportSize], 
+                        [xs + supportSize/2, yBase + supportSize]
+                    ]))
+                    .attr("fill", "#cbd5e1")
+                    .attr("stroke", "#94a3b8");
+            } else {
+                g.append("circle")
+                    .attr("cx", xs)
+                    .attr("cy", yBase + supportSize/2)
+                    .attr("r", supportSize/2)
+                    .attr("fill", "#cbd5e1")
+                    .attr("stroke", "#94a3b8");
+            }
+        });
+
+        // Ground line under pin/roller supports
+        const grounded = supports.filter(sup => sup.type !== 'fixed').map(sup => sup.x * scaleFactor);
+        if (grounded.length > 0) {
             g.append("line")
-                .attr("x1", -20)
+                .attr("x1", Math.min(...grounded) - 20)
                 .attr("y1", yBase + supportSize + 2)
-                .attr("x2", xRight + 20)
+                .attr("x2", Math.max(...grounded) + 20)
                 .attr("y2", yBase + supportSize + 2)
                 .attr("stroke", "#64748b")
                 .attr("stroke-width", 2);
         }
 
-        // --- Draw Force Arrow & Label ---
+        // --- Draw Load Arrows & Labels ---
         const calcDisplacement = (x: number) => {
              const targetX = x;
              let minDist = Infinity;
@@ -145,12 +211,6 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ params, isActive = true
              return { dx: nearestNode.dx, dy: nearestNode.dy };
         };
 
-        const loadNode = calcDisplacement(params.loadPosition);
-        const arrowX = loadNode.dx * scaleFactor;
-        const arrowY = -loadNode.dy * scaleFactor; 
-        
-        const arrowLength = 40;
-        const isDown = params.force < 0;
         const arrowColor = isActive ? "#ef4444" : "#9ca3af"; 
 
         svg.append("defs").append("marker")
@@ -166,33 +226,97 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ params, isActive = true
             .attr("fill", arrowColor);
 
         const forceGroup = g.append("g");
-        
-        let startX = arrowX;
-        let startY = arrowY - (isDown ? arrowLength : -arrowLength);
-        let endX = arrowX;
-        let endY = arrowY - (isDown ? 10 : -10);
-
-        forceGroup.append("line")
-            .attr("x1", startX)
-            .attr("y1", startY)
-            .attr("x2", endX)
-            .attr("y2", endY)
-            .attr("stroke", arrowColor)
-            .attr("stroke-width", isActive ? 2 : 1)
-            .attr("marker-end", "url(#arrowhead)");
-
-        const labelY = startY - (isDown ? 10 : -15);
-        
-        if (isActive) {
+
+        // Vertical arrow ending on the deformed top surface; returns the tail position
+        const drawArrow = (x: number, isDown: boolean, arrowLength: number, strokeWidth: number) => {
+            const node = calcDisplacement(x);
+            const arrowX = node.dx * scaleFactor;
+            const arrowY = -node.dy * scaleFactor;
+            const startY = arrowY - (isDown ? arrowLength : -arrowLength);
+
+            forceGroup.append("line")
+                .attr("x1", arrowX)
+                .attr("y1", startY)
+                .attr("x2", arrowX)
+                .attr("y2", arrowY - (isDown ? 10 : -10))
+                .attr("stroke", arrowColor)
+                .attr("stroke-width", strokeWidth)
+                .attr("marker-end", "url(#arrowhead)");
+
+            return { x: arrowX, y: startY };
+        };
+
+        const drawLabel = (x: number, y: number, text: string) => {
+            if (!isActive) return;
             forceGroup.append("text")
-                .attr("x", startX)
-                .attr("y", labelY)
+                .attr("x", x)
+                .attr("y", y)
                 .attr("text-anchor", "middle")
                 .attr("fill", arrowColor)
                 .attr("font-weight", "bold")
                 .attr("font-size", "12px")
-                .text(`F = ${Math.abs(params.force)} N`);
-        }
+                .text(text);
+        };
+
+        // Loads and the stress legend belong to the static solution
+        if (mode || transient) return;
+
+        getActiveLoads(params).forEach(l => {
+            const isDown = l.val >= 0;
+            if (l.type === 'P' && l.x !== undefined) {
+                const tail = drawArrow(l.x, isDown, 40, isActive ? 2 : 1);
+                drawLabel(tail.x, tail.y - (isDown ? 10 : -15), `${l.id === 'default' ? 'F' : 'P'} = ${Math.abs(l.val)} N`);
+            } else if ((l.type === 'U' || l.type === 'T') && l.x1 !== undefined && l.x2 !== undefined && l.x2 > l.x1) {
+                // Arrow length follows the load intensity (linear for T)
+                const count = Math.max(2, Math.round((l.x2 - l.x1) / params.length * 12));
+                const tails: [number, number][] = [];
+                for (let k = 0; k <= count; k++) {
+                    const x = l.x1 + (l.x2 - l.x1) * k / count;
+                    const r = k / count;
+                    const ratio = l.type === 'U' ? 1 : (l.peak === 'right' ? r : 1 - r);
+                    const tail = drawArrow(x, isDown, 14 + 20 * ratio, 1);
+                    tails.push([tail.x, tail.y]);
+                }
+                forceGroup.append("path")
+                    .attr("d", d3.line()(tails))
+                    .attr("fill", "none")
+                    .attr("stroke", arrowColor)
+                    .attr("stroke-width", 1);
+                const mid = tails[Math.floor(tails.length / 2)];
+                drawLabel(mid[0], Math.min(...tails.map(t => t[1])) - 8, l.id === SELF_WEIGHT_ID ? `自重 w = ${l.val.toFixed(0)} N/m` : `w = ${Math.abs(l.val)} N/m`);
+            } else if (l.type === 'N' && l.x !== undefined) {
+                // Horizontal arrow on the axis ending at the load point (compression points towards -x)
+                const node = calcDisplacement(l.x);
+                const ax = node.dx * scaleFactor;
+                const ay = -(node.dy - params.height / 2) * scaleFactor;
+                const dir = l.val >= 0 ? 1 : -1;
+                forceGroup.append("line")
+                    .attr("x1", ax + dir * 50)
+                    .attr("y1", ay)
+                    .attr("x2", ax + dir * 10)
+                    .attr("y2", ay)
+                    .attr("stroke", arrowColor)
+                    .attr("stroke-width", isActive ? 2 : 1)
+                    .attr("marker-end", "url(#arrowhead)");
+                drawLabel(ax + dir * 30, ay - 8, `N = ${Math.abs(l.val)} N ${l.val >= 0 ? '(壓)' : '(拉)'}`);
+            } else if (l.type === 'M' && l.x !== undefined) {
+                // Curved arrow: counter-clockwise for positive moments
+                const node = calcDisplacement(l.x);
+                const cx = node.dx * scaleFactor;
+                const cy = -(node.dy - params.height / 2) * scaleFactor;
+                const r = 18;
+                const ccw = l.val >= 0;
+                forceGroup.append("path")
+                    .attr("d", ccw
+                        ? `M ${cx + r} ${cy} A ${r} ${r} 0 1 0 ${cx} ${cy + r}`
+                        : `M ${cx - r} ${cy} A ${r} ${r} 0 1 1 ${cx} ${cy + r}`)
+                    .attr("fill", "none")
+                    .attr("stroke", arrowColor)
+                    .attr("stroke-width", isActive ? 2 : 1)
+                    .attr("marker-end", "url(#arrowhead)");
+                drawLabel(cx, cy - r - 6, `M = ${Math.abs(l.val)} N·m`);
+            }
+        });
 
         // --- Draw Legend (Simplified) ---
         const legendWidth = 150;
@@ -242,17 +366,106 @@ const BeamVisualizer: React.FC<BeamVisualizerProps> = ({ params, isActive = true
                 .attr("fill", "#94a3b8")
                 .attr("font-size", "10px")
                 .text(formatStress(maxStress));
+
+            legendGroup.append("text")
+                .attr("x", legendWidth / 2)
+                .attr("y", -4)
+                .attr("text-anchor", "middle")
+                .attr("fill", "#94a3b8")
+                .attr("font-size", "10px")
+                .text(`${STRESS_COMPONENT_LABELS[stressComponent]} (Pa)`);
         }
 
-    }, [elements, params, maxStress, minStress, isActive]);
+    }, [elements, elementValues, stressComponent, params, maxStress, minStress, isActive, mode, transient]);
+
+    // Mode shape animation: the mesh oscillates as φ(x)·sin(2πt/T) with a fixed display period
+    useEffect(() => {
+        if (!mode || !svgRef.current) return;
+        const e = getNeutralAxisOffset(params);
+        const amplitude = 0.08 * params.length;
+        const shape = new Map<string, { u: number; v: number }>();
+        elements.forEach(el => el.nodes.forEach(n => {
+            if (shape.has(n.id)) return;
+            const { v, theta } = sampleModeShape(mode, n.x);
+            shape.set(n.id, { u: -(n.y - e) * theta * amplitude, v: v * amplitude });
+        }));
+
+        const svg = svgRef.current;
+        const start = performance.now();
+        let frame = 0;
+        const animate = (now: number) => {
+            const s = Math.sin(2 * Math.PI * (now - start) / 1500);
+            drawDisplacedMesh(svg, scaleRef.current, n => {
+                const d = shape.get(n.id)!;
+                return { u: d.u * s, v: d.v * s };
+            });
+            frame = requestAnimationFrame(animate);
+        };
+        frame = requestAnimationFrame(animate);
+        return () => cancelAnimationFrame(frame);
+    }, [mode, elements, params]);
+
+    // Time-history animation: recorded frames at the deformation scale, looping over the analysis duration
+    useEffect(() => {
+        if (!transient || !svgRef.current) return;
+        const e = getNeutralAxisOffset(params);
+        const { xs, frames } = transient;
+        const svg = svgRef.current;
+        const start = performance.now();
+        let frame = 0;
+        const animate = (now: number) => {
+            const k = Math.floor((now - start) / TRANSIENT_PLAYBACK_MS * frames.length) % frames.length;
+            const { t, v, theta } = frames[k];
+            const samples = new Map<number, { v: number; theta: number }>();
+            drawDisplacedMesh(svg, scaleRef.current, n => {
+                let d = samples.get(n.x);
+                if (!d) {
+                    d = sampleModeShape({ xs, v, theta }, n.x);
+                    samples.set(n.x, d);
+                }
+                return { u: -(n.y - e) * d.theta * params.deformationScale, v: d.v * params.deformationScale };
+            });
+            let label = d3.select(svg).select<SVGTextElement>("text.transient-time");
+            if (label.empty()) {
+                label = d3.select(svg).append("text")
+                    .attr("class", "transient-time")
+                    .attr("x", 16)
+                    .attr("y", svg.clientHeight - 12)
+                    .attr("fill", "#818cf8")
+                    .attr("font-size", "11px")
+                    .attr("font-family", "monospace");
+            }
+            label.text(`t = ${t.toFixed(3)} s`);
+            frame = requestAnimationFrame(animate);
+        };
+        frame = requestAnimationFrame(animate);
+        return () => cancelAnimationFrame(frame);
+    }, [transient, elements, params]);
 
     return (
         <div className="w-full h-full relative flex flex-col cursor-pointer group">
              {/* Simple Title in corner */}
              <div className="absolute top-2 left-4 z-10 text-xs font-mono text-slate-500 pointer-events-none">
-                {params.beamType === 'cantilever' ? 'Cantilever' : 'Simply Supported'} / {params.sectionType.toUpperCase()}
+                {BEAM_TYPE_LABELS[params.beamType]} / {params.sectionType.toUpperCase()}{planeStress && ' / Q4 Plane Stress FEA'}
+                {mode && <span className="text-indigo-400"> / Mode {params.animatedMode! + 1}: {mode.frequency.toFixed(2)} Hz</span>}
+                {transient && <span className="text-indigo-400"> / 時間歷程 (Transient) ×{params.deformationScale}</span>}
              </div>
 
+             {/* Stress component selector */}
+             {isActive && (
+                <div className="absolute top-2 right-4 z-20 flex bg-slate-800/80 rounded p-0.5 border border-slate-700" onClick={e => e.stopPropagation()}>
+                    {(Object.keys(STRESS_COMPONENT_LABELS) as StressComponent[]).map(c => (
+                        <button
+                            key={c}
+                            onClick={() => setStressComponent(c)}
+                            className={`px-2 py-0.5 text-[10px] font-mono rounded ${stressComponent === c ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                        >
+                            {STRESS_COMPONENT_LABELS[c]}
+                        </button>
+                    ))}
+                </div>
+             )}
+
             <div className="flex-1 w-full h-full relative" ref={containerRef}>
                 <svg ref={svgRef} className="block w-full h-full z-10"></svg>
             </div>
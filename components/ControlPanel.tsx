@@ -1,5 +1,12 @@
 import React from 'react';
-import { SimulationParams, SimulationInstance, SimMode } from '../types';
+import { SimulationParams, SimulationInstance, SimMode, SupportDefinition, SupportType, AnalysisModel, BeamFormulation, SectionType } from '../types';
+import { getSupports, getStaticIndeterminacy, GRAVITY } from '../utils/beamModel';
+import { buildCustomShape } from '../utils/sectionGeometry';
+import { calculateSectionProperties } from '../utils/physics';
+import SteelShapePicker from './SteelShapePicker';
+import MaterialPicker from './MaterialPicker';
+import { VIBRATION_LIMITS } from '../utils/modalAnalysis';
+import { LTB_SECTION_TYPES } from '../utils/lateralBuckling';
 
 interface ControlPanelProps {
     simulations: SimulationInstance[];
@@ -11,6 +18,24 @@ interface ControlPanelProps {
     onChange: (newParams: SimulationParams) => void;
 }
 
+const SECTION_OPTIONS: [SectionType, string][] = [
+    ['rectangular', '矩形 Rect'],
+    ['circular', '圓形 Circ'],
+    ['ibeam', 'H型鋼'],
+    ['tube', '圓管 Tube'],
+    ['box', '方管 Box'],
+    ['tee', 'T型 Tee'],
+    ['channel', '槽鋼 C'],
+    ['angle', '角鋼 L'],
+    ['custom', '自訂 Custom']
+];
+
+const SECTION_KEYS: (keyof SimulationParams)[] = [
+    'sectionType', 'height', 'sectionWidth', 'flangeWidth', 'flangeThickness', 'webThickness', 'wallThickness'
+];
+
+const MATERIAL_KEYS: (keyof SimulationParams)[] = ['youngsModulus', 'poissonsRatio', 'yieldStrength', 'density'];
+
 const ControlPanel: React.FC<ControlPanelProps> = ({ 
     simulations, activeId, onSelect, onAdd, onRemove, params, onChange 
 }) => {
@@ -21,6 +46,19 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         if (key === 'length' && params.loadPosition > value) {
             newParams.loadPosition = value;
         }
+        // Editing the section by hand detaches it from the steel catalog
+        if (SECTION_KEYS.includes(key)) {
+            newParams.steelShape = null;
+        }
+        // Likewise for the material database entry
+        if (MATERIAL_KEYS.includes(key)) {
+            newParams.materialId = null;
+        }
+        // The custom section sets the depth from its outline
+        if (key === 'sectionType' && value === 'custom') {
+            const shape = buildCustomShape(params.customSection || []);
+            if (shape) newParams.height = shape.depth;
+        }
         onChange(newParams);
     };
     
@@ -35,16 +73,29 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         });
     };
 
-    const applyMaterial = (type: 'steel' | 'aluminum' | 'wood') => {
-        let E = 200e9;
-        let Yield = 250e6;
-        if (type === 'steel') { E = 200e9; Yield = 250e6; } 
-        else if (type === 'aluminum') { E = 70e9; Yield = 95e6; } 
-        else if (type === 'wood') { E = 11e9; Yield = 40e6; }
-        
-        onChange({ ...params, youngsModulus: E, yieldStrength: Yield });
+    const { geometryError, massPerLength } = calculateSectionProperties(params);
+
+    // Helpers for the user-defined support list
+    const updateSupport = (index: number, patch: Partial<SupportDefinition>) => {
+        const supports = (params.supports || []).map((s, i) => i === index ? { ...s, ...patch } : s);
+        onChange({ ...params, supports });
+    };
+
+    const addSupport = () => {
+        const supports = params.supports || [];
+        onChange({ ...params, supports: [...supports, { type: 'roller', x: params.length }] });
+    };
+
+    const removeSupport = (index: number) => {
+        onChange({ ...params, supports: (params.supports || []).filter((_, i) => i !== index) });
     };
 
+    const braces = params.lateralBraces || [];
+    const updateBrace = (index: number, x: number) =>
+        handleChange('lateralBraces', braces.map((b, i) => i === index ? Math.max(0, Math.min(params.length, x)) : b));
+    const addBrace = () => handleChange('lateralBraces', [...braces, params.length / 2]);
+    const removeBrace = (index: number) => handleChange('lateralBraces', braces.filter((_, i) => i !== index));
+
     return (
         <div className="bg-slate-900 border-r border-slate-800 w-80 flex-shrink-0 flex flex-col h-full overflow-y-auto p-4 z-30 shadow-xl scrollbar-thin scrollbar-thumb-slate-700">
             <h1 className="text-xl font-bold text-white mb-1 tracking-tight">StructSim<span className="text-blue-500">.io</span></h1>
@@ -173,6 +224,24 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         >
                             伸出樑 (Overhanging)
                         </button>
+                        <button 
+                            onClick={() => handleChange('beamType', 'fixedFixed')}
+                            className={`px-3 py-2 text-xs font-medium rounded border transition-colors ${params.beamType === 'fixedFixed' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'}`}
+                        >
+                            兩端固定
+                        </button>
+                        <button 
+                            onClick={() => handleChange('beamType', 'proppedCantilever')}
+                            className={`px-3 py-2 text-xs font-medium rounded border transition-colors ${params.beamType === 'proppedCantilever' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'}`}
+                        >
+                            一端固定一端簡支
+                        </button>
+                        <button 
+                            onClick={() => handleChange('beamType', 'continuous')}
+                            className={`col-span-2 px-3 py-2 text-xs font-medium rounded border transition-colors ${params.beamType === 'continuous' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-750'}`}
+                        >
+                            連續樑 / 自訂支承 (Continuous)
+                        </button>
                      </div>
                      
                      {/* Overhanging specific controls */}
@@ -188,16 +257,53 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                             </div>
                          </div>
                      )}
+
+                     {/* User-defined supports (any number of pin / roller / fixed) */}
+                     {params.beamType === 'continuous' && (
+                         <div className="mt-2 bg-slate-800 p-2 rounded space-y-1">
+                            {(params.supports || []).map((sup, i) => (
+                                <div key={i} className="flex gap-1 items-center">
+                                    <select 
+                                        value={sup.type} 
+                                        onChange={(e) => updateSupport(i, { type: e.target.value as SupportType })}
+                                        className="flex-1 bg-slate-700 rounded px-1 py-1 text-xs text-slate-200"
+                                    >
+                                        <option value="pin">鉸支 Pin</option>
+                                        <option value="roller">滾支 Roller</option>
+                                        <option value="fixed">固定 Fixed</option>
+                                    </select>
+                                    <input type="number" step="0.5" min="0" max={params.length} value={sup.x} onChange={(e) => updateSupport(i, { x: Number(e.target.value) })} className="w-16 bg-slate-700 rounded px-2 py-1 text-xs" />
+                                    <span className="text-[10px] text-slate-500">m</span>
+                                    <button 
+                                        onClick={() => removeSupport(i)}
+                                        className="text-slate-500 hover:text-red-400 px-1"
+                                    >
+                                        ×
+                                    </button>
+                                </div>
+                            ))}
+                            <button 
+                                onClick={addSupport}
+                                className="w-full text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 py-1 rounded transition-colors"
+                            >
+                                + 新增支承
+                            </button>
+                            <div className="text-[10px] text-slate-500">
+                                靜不定度 (Redundancy): {Math.max(0, getStaticIndeterminacy(getSupports(params)))}
+                            </div>
+                         </div>
+                     )}
                 </div>
 
                  {/* Section Type Settings */}
                  <div className="space-y-2 pt-4 border-t border-slate-800">
                      <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">截面形狀 (Section)</label>
-                     <div className="grid grid-cols-3 gap-1">
-                        <button onClick={() => handleChange('sectionType', 'rectangular')} className={`py-2 text-[10px] rounded border transition-colors ${params.sectionType === 'rectangular' ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>矩形 Rect</button>
-                        <button onClick={() => handleChange('sectionType', 'circular')} className={`py-2 text-[10px] rounded border transition-colors ${params.sectionType === 'circular' ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>圓形 Circ</button>
-                        <button onClick={() => handleChange('sectionType', 'ibeam')} className={`py-2 text-[10px] rounded border transition-colors ${params.sectionType === 'ibeam' ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>H型鋼</button>
+                     <div className="grid grid-cols-4 gap-1">
+                        {SECTION_OPTIONS.map(([type, label]) => (
+                            <button key={type} onClick={() => handleChange('sectionType', type)} className={`py-2 text-[10px] rounded border transition-colors ${params.sectionType === type ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>{label}</button>
+                        ))}
                      </div>
+                     <SteelShapePicker params={params} onChange={onChange} />
                 </div>
 
                 {/* Force Control (Only for Simple Mode, Diagram Mode uses its own) */}
@@ -221,6 +327,13 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                         <input type="range" min="0" max={params.length} step="0.1" value={params.loadPosition} onChange={(e) => handleChange('loadPosition', Number(e.target.value))} className="w-full h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-400" />
                     </div>
+                    <label className="flex justify-between items-center cursor-pointer">
+                        <span className="text-xs text-slate-300">包含自重 (Self-weight)</span>
+                        <span className="flex items-center gap-2">
+                            {params.includeSelfWeight && <span className="text-[10px] font-mono text-slate-400">{(massPerLength * GRAVITY).toFixed(0)} N/m</span>}
+                            <input type="checkbox" checked={!!params.includeSelfWeight} onChange={(e) => handleChange('includeSelfWeight', e.target.checked)} className="accent-blue-500" />
+                        </span>
+                    </label>
                 </div>
 
                 {/* Geometry Controls */}
@@ -235,15 +348,21 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         <input type="range" min="1" max="20" step="0.1" value={params.length} onChange={(e) => handleChange('length', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500" />
                     </div>
 
-                    <div className="space-y-1">
-                        <div className="flex justify-between">
-                            <label className="text-xs text-slate-300">{params.sectionType === 'circular' ? '直徑 D' : '高度 H'}</label>
-                            <span className="text-xs font-mono text-slate-400">{params.height.toFixed(2)} m</span>
+                    {params.sectionType === 'custom' ? (
+                        <div className="text-[10px] text-slate-500">
+                            截面高度 H = {params.height.toFixed(3)} m，於「截面編輯器」分頁編輯輪廓
                         </div>
-                        <input type="range" min="0.1" max="1.5" step="0.05" value={params.height} onChange={(e) => handleChange('height', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500" />
-                    </div>
+                    ) : (
+                        <div className="space-y-1">
+                            <div className="flex justify-between">
+                                <label className="text-xs text-slate-300">{params.sectionType === 'circular' || params.sectionType === 'tube' ? '直徑 D' : params.sectionType === 'angle' ? '垂直肢長 H' : '高度 H'}</label>
+                                <span className="text-xs font-mono text-slate-400">{params.height.toFixed(2)} m</span>
+                            </div>
+                            <input type="range" min="0.1" max="1.5" step="0.05" value={params.height} onChange={(e) => handleChange('height', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500" />
+                        </div>
+                    )}
 
-                    {params.sectionType === 'rectangular' && (
+                    {(params.sectionType === 'rectangular' || params.sectionType === 'box') && (
                         <div className="space-y-1">
                             <div className="flex justify-between">
                                 <label className="text-xs text-slate-300">寬度 B</label>
@@ -253,27 +372,113 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                         </div>
                     )}
 
-                    {params.sectionType === 'ibeam' && (
+                    {['ibeam', 'tee', 'channel', 'angle'].includes(params.sectionType) && (
                         <>
                             <div className="space-y-1">
                                 <div className="flex justify-between">
-                                    <label className="text-xs text-slate-300">翼板寬度 (Flange Width)</label>
+                                    <label className="text-xs text-slate-300">{params.sectionType === 'angle' ? '水平肢長 B' : '翼板寬度 (Flange Width)'}</label>
                                     <span className="text-xs font-mono text-slate-400">{params.flangeWidth.toFixed(2)} m</span>
                                 </div>
-                                <input type="range" min="0.1" max="1.0" step="0.05" value={params.flangeWidth} onChange={(e) => handleChange('flangeWidth', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500" />
+                                <input type="range" min="0.05" max="1.0" step="0.05" value={params.flangeWidth} onChange={(e) => handleChange('flangeWidth', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-teal-500" />
                             </div>
                             <div className="flex gap-2">
                                 <div className="flex-1 space-y-1">
-                                    <label className="text-[10px] text-slate-400">翼板厚 tf</label>
+                                    <label className="text-[10px] text-slate-400">{params.sectionType === 'angle' ? '肢厚 t' : '翼板厚 tf'}</label>
                                     <input type="number" step="0.01" value={params.flangeThickness} onChange={(e) => handleChange('flangeThickness', Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-teal-500" />
                                 </div>
-                                <div className="flex-1 space-y-1">
-                                    <label className="text-[10px] text-slate-400">腹板厚 tw</label>
-                                    <input type="number" step="0.01" value={params.webThickness} onChange={(e) => handleChange('webThickness', Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-teal-500" />
-                                </div>
+                                {params.sectionType !== 'angle' && (
+                                    <div className="flex-1 space-y-1">
+                                        <label className="text-[10px] text-slate-400">腹板厚 tw</label>
+                                        <input type="number" step="0.01" value={params.webThickness} onChange={(e) => handleChange('webThickness', Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-teal-500" />
+                                    </div>
+                                )}
                             </div>
+                            {params.sectionType === 'angle' && (
+                                <div className="text-[10px] text-slate-500">B = H 為等肢角鋼；繞水平形心軸彎曲 (不計主軸旋轉)</div>
+                            )}
                         </>
                     )}
+
+                    {LTB_SECTION_TYPES.includes(params.sectionType) && (
+                        <div className="bg-slate-800 p-2 rounded space-y-1">
+                            <label className="text-[10px] text-slate-400">側向支撐 (Lateral Bracing)</label>
+                            {braces.map((x, i) => (
+                                <div key={i} className="flex gap-1 items-center">
+                                    <span className="flex-1 text-[10px] text-slate-500">支撐點 {i + 1}</span>
+                                    <input type="number" step="0.5" min="0" max={params.length} value={x} onChange={(e) => updateBrace(i, Number(e.target.value))} className="w-16 bg-slate-700 rounded px-2 py-1 text-xs" />
+                                    <span className="text-[10px] text-slate-500">m</span>
+                                    <button onClick={() => removeBrace(i)} className="text-slate-500 hover:text-red-400 px-1">×</button>
+                                </div>
+                            ))}
+                            <button onClick={addBrace} className="w-full text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 py-1 rounded transition-colors">
+                                + 新增側撐
+                            </button>
+                            <div className="flex gap-1 items-center">
+                                <span className="flex-1 text-[10px] text-slate-400">無側撐長度 Lb</span>
+                                <input
+                                    type="number" step="0.5" min="0" placeholder="自動"
+                                    value={params.unbracedLength ?? ''}
+                                    onChange={(e) => handleChange('unbracedLength', e.target.value === '' ? null : Math.max(0, Number(e.target.value)))}
+                                    className="w-16 bg-slate-700 rounded px-2 py-1 text-xs"
+                                />
+                                <span className="text-[10px] text-slate-500">m</span>
+                            </div>
+                            <div className="text-[10px] text-slate-500">支承處視為側撐；留空時 Lb 取支撐點間距</div>
+                        </div>
+                    )}
+
+                    {(params.sectionType === 'tube' || params.sectionType === 'box') && (
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">壁厚 t</label>
+                            <input type="number" step="0.005" value={params.wallThickness} onChange={(e) => handleChange('wallThickness', Number(e.target.value))} className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-teal-500" />
+                        </div>
+                    )}
+
+                    {geometryError && (
+                        <div className="text-[10px] text-red-400 bg-red-500/10 border border-red-500/40 rounded px-2 py-1">
+                            截面尺寸無效：{geometryError}
+                        </div>
+                    )}
+                </div>
+
+                <div className="space-y-3 pt-4 border-t border-slate-800">
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">分析模型 (Analysis Model)</label>
+                    <div className="grid grid-cols-2 gap-1">
+                        {([['beamTheory', '梁理論 Beam'], ['planeStress', '平面應力 Q4 FEA']] as [AnalysisModel, string][]).map(([model, label]) => (
+                            <button
+                                key={model}
+                                onClick={() => handleChange('analysisModel', model)}
+                                className={`text-[10px] py-1 rounded border ${params.analysisModel === model ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-1">
+                        {([['eulerBernoulli', 'Euler-Bernoulli'], ['timoshenko', 'Timoshenko (剪力變形)']] as [BeamFormulation, string][]).map(([formulation, label]) => (
+                            <button
+                                key={formulation}
+                                onClick={() => handleChange('beamFormulation', formulation)}
+                                className={`text-[10px] py-1 rounded border ${params.beamFormulation === formulation ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">網格 X</label>
+                            <input type="number" min="2" max="120" step="1" value={params.meshDensityX} onChange={(e) => handleChange('meshDensityX', Math.max(2, Math.min(120, Math.round(Number(e.target.value)))))} className="w-full bg-slate-700 rounded px-2 py-1 text-xs" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">網格 Y</label>
+                            <input type="number" min="1" max="24" step="1" value={params.meshDensityY} onChange={(e) => handleChange('meshDensityY', Math.max(1, Math.min(24, Math.round(Number(e.target.value)))))} className="w-full bg-slate-700 rounded px-2 py-1 text-xs" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">柏松比 ν</label>
+                            <input type="number" min="0" max="0.49" step="0.01" value={params.poissonsRatio} onChange={(e) => handleChange('poissonsRatio', Math.max(0, Math.min(0.49, Number(e.target.value))))} className="w-full bg-slate-700 rounded px-2 py-1 text-xs" />
+                        </div>
+                    </div>
                 </div>
 
                 <div className="space-y-3 pt-4 border-t border-slate-800">
@@ -288,12 +493,50 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                 </div>
 
                 <div className="space-y-3 pt-4 border-t border-slate-800">
-                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">材料特性 (Material)</h3>
-                    <div className="grid grid-cols-3 gap-1 mb-2">
-                        <button onClick={() => applyMaterial('steel')} className="bg-slate-800 text-[10px] text-slate-300 py-1 rounded hover:bg-slate-700 border border-slate-700">鋼 Steel</button>
-                        <button onClick={() => applyMaterial('aluminum')} className="bg-slate-800 text-[10px] text-slate-300 py-1 rounded hover:bg-slate-700 border border-slate-700">鋁 Alum.</button>
-                        <button onClick={() => applyMaterial('wood')} className="bg-slate-800 text-[10px] text-slate-300 py-1 rounded hover:bg-slate-700 border border-slate-700">木 Wood</button>
+                    <label className="text-xs font-bold text-slate-500 uppercase tracking-wider">模態分析 (Modal)</label>
+                    <div className="grid grid-cols-2 gap-2">
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">模態數 N</label>
+                            <input type="number" min="1" max="10" step="1" value={params.modeCount} onChange={(e) => handleChange('modeCount', Math.max(1, Math.min(10, Math.round(Number(e.target.value)))))} className="w-full bg-slate-700 rounded px-2 py-1 text-xs" />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">振動限值 f₁ (Hz)</label>
+                            <input type="number" min="0" step="0.5" value={params.vibrationLimit} onChange={(e) => handleChange('vibrationLimit', Math.max(0, Number(e.target.value)))} className="w-full bg-slate-700 rounded px-2 py-1 text-xs" />
+                        </div>
                     </div>
+                    <select
+                        value={VIBRATION_LIMITS.some(([f]) => f === params.vibrationLimit) ? params.vibrationLimit : ''}
+                        onChange={(e) => e.target.value && handleChange('vibrationLimit', Number(e.target.value))}
+                        className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-[10px] text-slate-300"
+                    >
+                        <option value="">自訂限值</option>
+                        {VIBRATION_LIMITS.map(([f, label]) => <option key={f} value={f}>{label}</option>)}
+                    </select>
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-slate-400">動畫 (Mode Shape / Transient)</label>
+                        <div className="flex flex-wrap gap-1">
+                            {[null, ...Array.from({ length: params.modeCount }, (_, i) => i)].map(mode => (
+                                <button
+                                    key={mode ?? 'off'}
+                                    onClick={() => onChange({ ...params, animatedMode: mode, transient: { ...params.transient, animate: false } })}
+                                    className={`px-2 py-0.5 text-[10px] rounded border ${params.animatedMode === mode && !params.transient.animate ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                                >
+                                    {mode === null ? '靜態' : `Mode ${mode + 1}`}
+                                </button>
+                            ))}
+                            <button
+                                onClick={() => onChange({ ...params, animatedMode: null, transient: { ...params.transient, animate: true } })}
+                                className={`px-2 py-0.5 text-[10px] rounded border ${params.transient.animate ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'}`}
+                            >
+                                時間歷程
+                            </button>
+                        </div>
+                    </div>
+                </div>
+
+                <div className="space-y-3 pt-4 border-t border-slate-800">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider">材料特性 (Material)</h3>
+                    <MaterialPicker params={params} onChange={onChange} />
 
                     <div className="space-y-1">
                         <div className="flex justify-between">
@@ -307,7 +550,11 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
                             <label className="text-xs text-slate-300">降伏強度 σy</label>
                             <span className="text-xs font-mono text-slate-400">{(params.yieldStrength / 1e6).toFixed(0)} MPa</span>
                         </div>
-                        <input type="range" min="10000000" max="500000000" step="5000000" value={params.yieldStrength} onChange={(e) => handleChange('yieldStrength', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-red-500" />
+                        <input type="range" min="10000000" max="1000000000" step="5000000" value={params.yieldStrength} onChange={(e) => handleChange('yieldStrength', Number(e.target.value))} className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-red-500" />
+                    </div>
+                    <div className="flex justify-between items-center">
+                        <label className="text-xs text-slate-300">密度 ρ (kg/m³)</label>
+                        <input type="number" min="1" step="10" value={params.density} onChange={(e) => handleChange('density', Math.max(1, Number(e.target.value)))} className="w-24 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white text-right focus:outline-none focus:border-indigo-500" />
                     </div>
                 </div>
                 </>
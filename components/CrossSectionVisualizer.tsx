@@ -1,6 +1,21 @@
 import React from 'react';
-import { SimulationParams } from '../types';
+import { SimulationParams, SectionType } from '../types';
 import * as d3 from 'd3';
+import { calculateSectionProperties } from '../utils/physics';
+import { getSectionShape, getSectionHalfWidth, getSectionPath } from '../utils/sectionGeometry';
+
+// Dimensions listed under the drawing for each section type
+const SECTION_DIMENSIONS: Record<SectionType, (p: SimulationParams) => [string, number][]> = {
+    rectangular: p => [['H', p.height], ['B', p.sectionWidth]],
+    circular: p => [['D', p.height]],
+    ibeam: p => [['H', p.height], ['B', p.flangeWidth], ['tf', p.flangeThickness], ['tw', p.webThickness]],
+    tube: p => [['D', p.height], ['t', p.wallThickness]],
+    box: p => [['H', p.height], ['B', p.sectionWidth], ['t', p.wallThickness]],
+    tee: p => [['H', p.height], ['B', p.flangeWidth], ['tf', p.flangeThickness], ['tw', p.webThickness]],
+    channel: p => [['H', p.height], ['B', p.flangeWidth], ['tf', p.flangeThickness], ['tw', p.webThickness]],
+    angle: p => [['H', p.height], ['B', p.flangeWidth], ['t', p.flangeThickness]],
+    custom: p => [['H', p.height]]
+};
 
 interface CrossSectionVisualizerProps {
     params: SimulationParams;
@@ -10,11 +25,27 @@ interface CrossSectionVisualizerProps {
 const CrossSectionVisualizer: React.FC<CrossSectionVisualizerProps> = ({ params, maxStress }) => {
     const width = 200;
     const height = 160;
-    const centerX = width / 2;
+    const centerX = 80; // Leave room for the stress diagram on the right
     const centerY = height / 2;
 
-    // Scale drawing to fit in box (approx 80% of view)
-    const drawScale = (Math.min(width, height) * 0.7) / params.height;
+    const shape = getSectionShape(params);
+    const { centroid, cTop, cBottom } = calculateSectionProperties(params);
+    const halfWidth = getSectionHalfWidth(shape);
+
+    // Scale drawing to fit in box (approx 70% of view)
+    const drawScale = Math.min((height * 0.7) / params.height, 110 / (2 * halfWidth));
+    // Section coordinates (x from the centre line, y from the bottom fibre) to SVG, mid-depth at the centre
+    const sx = (x: number) => x * drawScale;
+    const sy = (y: number) => -(y - params.height / 2) * drawScale;
+    const naY = sy(centroid);
+
+    // Holes are cut out by the even-odd fill rule
+    const outline = getSectionPath(shape, sx, sy, drawScale);
+
+    // Fibre stresses scale with the distance from the neutral axis
+    const c = Math.max(cTop, cBottom);
+    const topStress = c > 0 ? maxStress * cTop / c : 0;
+    const bottomStress = c > 0 ? maxStress * cBottom / c : 0;
 
     // Create stress gradient definition
     // Top is Tension (Red) or Compression (Blue) depending on sign
@@ -68,84 +99,51 @@ const CrossSectionVisualizer: React.FC<CrossSectionVisualizerProps> = ({ params,
                     <defs>
                         <linearGradient id={gradientId} x1="0%" y1="0%" x2="0%" y2="100%">
                             <stop offset="0%" stopColor={topColor} />
-                            <stop offset="50%" stopColor="#ffffff" />
+                            <stop offset={`${(cTop / params.height) * 100}%`} stopColor="#ffffff" />
                             <stop offset="100%" stopColor={bottomColor} />
                         </linearGradient>
                     </defs>
 
                     {/* Draw Grid Lines */}
-                    <line x1={0} y1={centerY} x2={width} y2={centerY} stroke="#475569" strokeDasharray="4 2" />
                     <line x1={centerX} y1={0} x2={centerX} y2={height} stroke="#475569" strokeDasharray="4 2" />
 
                     {/* Draw Shape */}
                     <g transform={`translate(${centerX}, ${centerY})`}>
-                        {params.sectionType === 'rectangular' && (
-                            <rect 
-                                x={-params.sectionWidth * drawScale / 2}
-                                y={-params.height * drawScale / 2}
-                                width={params.sectionWidth * drawScale}
-                                height={params.height * drawScale}
-                                fill={`url(#${gradientId})`}
-                                stroke="#94a3b8"
-                                strokeWidth="1.5"
-                            />
-                        )}
-
-                        {params.sectionType === 'circular' && (
-                            <circle 
-                                cx={0}
-                                cy={0}
-                                r={(params.height * drawScale) / 2}
-                                fill={`url(#${gradientId})`}
-                                stroke="#94a3b8"
-                                strokeWidth="1.5"
-                            />
-                        )}
-
-                        {params.sectionType === 'ibeam' && (
-                            <path 
-                                d={`
-                                    M ${-params.flangeWidth * drawScale / 2} ${-params.height * drawScale / 2}
-                                    h ${params.flangeWidth * drawScale}
-                                    v ${params.flangeThickness * drawScale}
-                                    h ${-(params.flangeWidth - params.webThickness) * drawScale / 2}
-                                    v ${(params.height - 2 * params.flangeThickness) * drawScale}
-                                    h ${(params.flangeWidth - params.webThickness) * drawScale / 2}
-                                    v ${params.flangeThickness * drawScale}
-                                    h ${-params.flangeWidth * drawScale}
-                                    v ${-params.flangeThickness * drawScale}
-                                    h ${(params.flangeWidth - params.webThickness) * drawScale / 2}
-                                    v ${-(params.height - 2 * params.flangeThickness) * drawScale}
-                                    h ${-(params.flangeWidth - params.webThickness) * drawScale / 2}
-                                    Z
-                                `}
-                                fill={`url(#${gradientId})`}
-                                stroke="#94a3b8"
-                                strokeWidth="1.5"
-                            />
-                        )}
+                        <path 
+                            d={outline}
+                            fill={`url(#${gradientId})`}
+                            fillRule="evenodd"
+                            stroke="#94a3b8"
+                            strokeWidth="1.5"
+                        />
                     </g>
+
+                    {/* Neutral axis through the centroid */}
+                    <line x1={0} y1={centerY + naY} x2={width} y2={centerY + naY} stroke="#fbbf24" strokeDasharray="4 2" />
+                    <text x={2} y={centerY + naY - 3} fontSize="9" fill="#fbbf24">N.A.</text>
                     
                     {/* Draw Stress Diagram on the right side */}
-                    <g transform={`translate(${width - 40}, ${centerY})`}>
+                    <g transform={`translate(${width - 35}, ${centerY})`}>
                          <line x1={0} y1={-height/2 + 10} x2={0} y2={height/2 - 10} stroke="#64748b" />
                          <path 
-                            d={`M 0 ${-params.height * drawScale / 2} L 30 0 L 0 ${params.height * drawScale / 2}`}
+                            d={`M 0 ${sy(params.height)} L ${-25 * cTop / c} ${sy(params.height)} L 0 ${naY} L ${25 * cBottom / c} ${sy(0)} L 0 ${sy(0)}`}
                             fill="none"
                             stroke="#fbbf24"
                             strokeWidth="2"
                          />
-                         <text x={35} y={-params.height * drawScale / 2} fontSize="10" fill={topColor} textAnchor="end">σ_max</text>
+                         <text x={33} y={sy(params.height) - 2} fontSize="9" fill={topColor} textAnchor="end">{(topStress / 1e6).toFixed(1)}</text>
+                         <text x={33} y={sy(0) + 9} fontSize="9" fill={bottomColor} textAnchor="end">{(bottomStress / 1e6).toFixed(1)}</text>
                     </g>
                 </svg>
             </div>
             
             {/* Dimensions Info */}
             <div className="grid grid-cols-2 gap-2 w-full mt-2 text-[10px] text-slate-400">
-                <div>H: {params.height.toFixed(2)}m</div>
-                {params.sectionType === 'rectangular' && <div>W: {params.sectionWidth.toFixed(2)}m</div>}
-                {params.sectionType === 'ibeam' && <div>Flange: {params.flangeWidth.toFixed(2)}m</div>}
-                {params.sectionType === 'circular' && <div>Dia: {params.height.toFixed(2)}m</div>}
+                {SECTION_DIMENSIONS[params.sectionType](params).map(([label, value]) => (
+                    <div key={label}>{label}: {(value * 1000).toFixed(0)}mm</div>
+                ))}
+                <div>ȳ: {(centroid * 1000).toFixed(1)}mm</div>
+                <div>σ 單位: MPa</div>
             </div>
         </div>
     );
@@ -1,7 +1,32 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { SimulationParams, LoadDefinition, LoadType } from '../types';
-import { calculateAnalyticalDiagrams, generateDetailedSteps } from '../utils/structuralAnalysis';
+import { SimulationParams, LoadDefinition, LoadType, LoadCase, SupportType } from '../types';
+import { calculateAnalyticalDiagrams, calculateCombinationEnvelope, sampleDiagrams, generateDetailedSteps, generateReactionSteps, generateMacaulaySteps, findCriticalPoints, CriticalPointType } from '../utils/structuralAnalysis';
+import { getSupports, getSelfWeightLoad } from '../utils/beamModel';
+import { calculateSectionProperties } from '../utils/physics';
+import { LOAD_CASES, getLoadCase } from '../utils/loadCombinations';
+import { calculateStability } from '../utils/stability';
+import LoadCombinationPanel from './LoadCombinationPanel';
+
+const CRITICAL_POINT_LABELS: Record<CriticalPointType, string> = {
+    Mmax: '最大正彎矩 M+max',
+    Mmin: '最大負彎矩 M-max',
+    Vmax: '最大正剪力 V+max',
+    Vmin: '最大負剪力 V-max',
+    zeroShear: '零剪力點 V=0',
+    inflection: '反曲點 M=0'
+};
+
+// Canvas layout shared by the drawing code and the mouse hit tests
+const CANVAS_PAD = 50;
+const BEAM_Y = 60;
+const SNAP = 0.05; // m
+const HIT_PX = 8;
+const AXIAL_ARROW_PX = 34;
+
+type DragTarget =
+    | { kind: 'load'; id: string; handle: 'x' | 'x1' | 'x2' | 'body'; grab: number }
+    | { kind: 'support'; index: number };
 
 interface DiagramViewProps {
     params: SimulationParams;
@@ -17,16 +42,35 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
     const [inputX, setInputX] = useState(params.length / 2);
     const [inputX2, setInputX2] = useState(params.length);
     const [inputPeak, setInputPeak] = useState<'left'|'right'>('right');
+    const [inputCase, setInputCase] = useState<LoadCase>('L');
+    const [method, setMethod] = useState<'segment' | 'macaulay'>('segment');
+
+    // Canvas editing: selected load and the handle currently being dragged
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const dragRef = useRef<DragTarget | null>(null);
+    const [hoverX, setHoverX] = useState<number | null>(null);
+    const selectedLoad = (params.customLoads || []).find(l => l.id === selectedId);
+    const selfWeight = getSelfWeightLoad(params);
 
-    const analysisData = calculateAnalyticalDiagrams(params);
-    const stepResults = generateDetailedSteps(params, analysisData.reactions);
+    // Analyses depend on params only: hovering re-renders must not recompute them
+    const analysisData = useMemo(() => calculateAnalyticalDiagrams(params), [params]);
+    const reactionSteps = useMemo(() => generateReactionSteps(params, analysisData.reactions), [params, analysisData]);
+    const stepResults = useMemo(() => generateDetailedSteps(params, analysisData.reactions), [params, analysisData]);
+    const macaulay = useMemo(() => generateMacaulaySteps(params, analysisData), [params, analysisData]);
+    const criticalPoints = useMemo(() => findCriticalPoints(params, analysisData), [params, analysisData]);
+    // One full analysis per combination
+    const envelope = useMemo(() => calculateCombinationEnvelope(params), [params]);
+    // Buckling eigenproblem and P-Δ solve
+    const stability = useMemo(() => calculateStability(params), [params]);
+    const hasAxial = stability.maxCompression > 0 || stability.maxTension > 0;
+    const stepsHtml = stepResults.map(step => step.int).join('');
 
-    // Re-render MathJax when content changes
+    // Re-render MathJax when the generated HTML changes
     useEffect(() => {
         if ((window as any).MathJax) {
             (window as any).MathJax.typesetPromise();
         }
-    }, [stepResults]);
+    }, [reactionSteps, stepsHtml, macaulay.html, method]);
 
     const addLoad = () => {
         const newLoad: LoadDefinition = {
@@ -36,7 +80,8 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
             x: inputX,
             x1: inputX,
             x2: inputX2,
-            peak: inputPeak
+            peak: inputPeak,
+            loadCase: inputCase
         };
         
         // Ensure customLoads array exists
@@ -60,6 +105,122 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
         onChange({ ...params, customLoads: [] });
     };
 
+    const updateLoad = (id: string, patch: Partial<LoadDefinition>) => {
+        const currentLoads = params.customLoads || [];
+        onChange({
+            ...params,
+            customLoads: currentLoads.map(l => l.id === id ? { ...l, ...patch } : l)
+        });
+    };
+
+    // Supports that can be dragged: overhanging A/B, or the custom supports of a continuous beam
+    const getDraggableSupports = () => {
+        if (params.beamType === 'overhanging') return [{ index: 0, x: params.supportA }, { index: 1, x: params.supportB }];
+        if (params.beamType === 'continuous') return (params.supports || []).map((s, index) => ({ index, x: s.x }));
+        return [];
+    };
+
+    const moveSupport = (index: number, x: number) => {
+        if (params.beamType === 'overhanging') {
+            onChange({ ...params, [index === 0 ? 'supportA' : 'supportB']: x });
+        } else {
+            onChange({ ...params, supports: (params.supports || []).map((s, i) => i === index ? { ...s, x } : s) });
+        }
+    };
+
+    // Mouse position in canvas pixels (the canvas is scaled with object-contain)
+    const toCanvasPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const cvs = e.currentTarget;
+        const rect = cvs.getBoundingClientRect();
+        const scale = Math.min(rect.width / cvs.width, rect.height / cvs.height);
+        const offX = (rect.width - cvs.width * scale) / 2;
+        const offY = (rect.height - cvs.height * scale) / 2;
+        return { px: (e.clientX - rect.left - offX) / scale, py: (e.clientY - rect.top - offY) / scale, width: cvs.width };
+    };
+
+    const hitTest = (px: number, py: number, width: number): DragTarget | null => {
+        const L = params.length;
+        const scaleX = (width - 2 * CANVAS_PAD) / L;
+        const xToPx = (x: number) => CANVAS_PAD + x * scaleX;
+        const x = (px - CANVAS_PAD) / scaleX;
+        const loads = params.customLoads || [];
+
+        // Last drawn load is on top
+        for (let i = loads.length - 1; i >= 0; i--) {
+            const l = loads[i];
+            if (l.type === 'N' && l.x !== undefined) {
+                // Arrow head at the load point, tail on the side opposite its direction
+                const tail = xToPx(l.x) + (l.val >= 0 ? AXIAL_ARROW_PX : -AXIAL_ARROW_PX);
+                if (px >= Math.min(tail, xToPx(l.x)) - HIT_PX && px <= Math.max(tail, xToPx(l.x)) + HIT_PX && Math.abs(py - BEAM_Y) <= 10) {
+                    return { kind: 'load', id: l.id, handle: 'x', grab: 0 };
+                }
+            } else if ((l.type === 'P' || l.type === 'M') && l.x !== undefined) {
+                const r = l.type === 'M' ? 18 : HIT_PX;
+                if (Math.abs(px - xToPx(l.x)) <= r && py >= BEAM_Y - 50 && py <= BEAM_Y + (l.type === 'M' ? 20 : 5)) {
+                    return { kind: 'load', id: l.id, handle: 'x', grab: 0 };
+                }
+            } else if (l.x1 !== undefined && l.x2 !== undefined && py >= BEAM_Y - 40 && py <= BEAM_Y + 5) {
+                if (Math.abs(px - xToPx(l.x1)) <= HIT_PX) return { kind: 'load', id: l.id, handle: 'x1', grab: 0 };
+                if (Math.abs(px - xToPx(l.x2)) <= HIT_PX) return { kind: 'load', id: l.id, handle: 'x2', grab: 0 };
+                if (px > xToPx(l.x1) && px < xToPx(l.x2)) return { kind: 'load', id: l.id, handle: 'body', grab: x - l.x1 };
+            }
+        }
+
+        const sup = getDraggableSupports().find(s => Math.abs(px - xToPx(s.x)) <= HIT_PX + 4 && py >= BEAM_Y && py <= BEAM_Y + 20);
+        return sup ? { kind: 'support', index: sup.index } : null;
+    };
+
+    const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const { px, py, width } = toCanvasPoint(e);
+        const target = hitTest(px, py, width);
+        dragRef.current = target;
+        setSelectedId(target && target.kind === 'load' ? target.id : null);
+    };
+
+    const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+        const { px, py, width } = toCanvasPoint(e);
+        const drag = dragRef.current;
+        if (!drag) {
+            e.currentTarget.style.cursor = hitTest(px, py, width) ? 'grab' : 'default';
+            const xh = (px - CANVAS_PAD) * params.length / (width - 2 * CANVAS_PAD);
+            setHoverX(xh >= 0 && xh <= params.length ? xh : null);
+            return;
+        }
+        e.currentTarget.style.cursor = 'grabbing';
+
+        const L = params.length;
+        const snap = (v: number) => Math.max(0, Math.min(L, Math.round(v / SNAP) * SNAP));
+        const x = snap((px - CANVAS_PAD) * L / (width - 2 * CANVAS_PAD));
+
+        if (drag.kind === 'support') {
+            moveSupport(drag.index, x);
+            return;
+        }
+        const load = (params.customLoads || []).find(l => l.id === drag.id);
+        if (!load) return;
+        if (drag.handle === 'x') {
+            updateLoad(load.id, { x });
+        } else if (load.x1 !== undefined && load.x2 !== undefined) {
+            if (drag.handle === 'x1') updateLoad(load.id, { x1: Math.min(x, load.x2 - SNAP), x: Math.min(x, load.x2 - SNAP) });
+            else if (drag.handle === 'x2') updateLoad(load.id, { x2: Math.max(x, load.x1 + SNAP) });
+            else {
+                // Move the whole distributed load, keeping its span
+                const span = load.x2 - load.x1;
+                const x1 = Math.max(0, Math.min(L - span, snap(x - drag.grab)));
+                updateLoad(load.id, { x1, x2: x1 + span, x: x1 });
+            }
+        }
+    };
+
+    const handleMouseUp = () => {
+        dragRef.current = null;
+    };
+
+    const handleMouseLeave = () => {
+        dragRef.current = null;
+        setHoverX(null);
+    };
+
     // Draw Canvas
     useEffect(() => {
         const cvs = canvasRef.current;
@@ -69,8 +230,8 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
         
         const W = cvs.width; 
         const H = cvs.height;
-        const pad = 50;
-        const beamY = 60;
+        const pad = CANVAS_PAD;
+        const beamY = BEAM_Y;
         
         // Clear
         ctx.fillStyle = '#1e293b'; // Slate-800
@@ -85,38 +246,103 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
         ctx.beginPath(); ctx.moveTo(xToPx(0), beamY); ctx.lineTo(xToPx(L), beamY); ctx.stroke();
 
         // Draw Supports
-        const drawSup = (x: number, type: 'pin'|'roller'|'fixed') => {
+        const drawSup = (x: number, type: SupportType) => {
              ctx.fillStyle = '#64748b';
-             if (type === 'fixed') { ctx.fillRect(xToPx(x)-6, beamY-15, 6, 30); }
+             if (type === 'fixed') { ctx.fillRect(x >= L/2 ? xToPx(x) : xToPx(x)-6, beamY-15, 6, 30); }
              else if (type === 'pin') { ctx.beginPath(); ctx.moveTo(xToPx(x), beamY); ctx.lineTo(xToPx(x)-8, beamY+15); ctx.lineTo(xToPx(x)+8, beamY+15); ctx.fill(); }
              else { ctx.strokeStyle='#64748b'; ctx.beginPath(); ctx.arc(xToPx(x), beamY+8, 6, 0, Math.PI*2); ctx.stroke(); }
         };
 
-        if (params.beamType === 'cantilever') drawSup(0, 'fixed');
-        else if (params.beamType === 'simplySupported') { drawSup(0, 'pin'); drawSup(L, 'roller'); }
-        else { drawSup(params.supportA, 'pin'); drawSup(params.supportB, 'roller'); }
+        getSupports(params).forEach(s => drawSup(s.x, s.type));
+
+        // Reaction values under each support
+        ctx.font = "10px monospace"; ctx.textAlign = 'center';
+        analysisData.reactions.forEach((r, i) => {
+             const name = String.fromCharCode(65 + i);
+             ctx.fillStyle = r.Fy < 0 ? '#fb923c' : '#94a3b8';
+             ctx.fillText(`R${name}=${r.Fy.toFixed(1)}`, xToPx(r.x), beamY + 28);
+             if (r.type === 'fixed') ctx.fillText(`M${name}=${r.Mz.toFixed(1)}`, xToPx(r.x), beamY + 40);
+             if (hasAxial && r.Fx !== 0) ctx.fillText(`H${name}=${r.Fx.toFixed(1)}`, xToPx(r.x), beamY + (r.type === 'fixed' ? 52 : 40));
+        });
+        if (analysisData.redundancy > 0) {
+             ctx.fillStyle = '#fbbf24'; ctx.textAlign = 'right';
+             ctx.fillText(`靜不定 ${analysisData.redundancy} 次 (Indeterminate)`, W - pad, 20);
+        }
+        // Euler load for the current supports and the axial utilisation
+        ctx.textAlign = 'right';
+        ctx.fillStyle = '#94a3b8';
+        ctx.fillText(`P_cr = ${Number.isFinite(stability.Pcr) ? (stability.Pcr / 1000).toFixed(1) : '∞'} kN (K = ${stability.effectiveLengthFactor.toFixed(2)})`, W - pad, 34);
+        if (stability.maxCompression > 0) {
+             ctx.fillStyle = stability.isBuckled ? '#f87171' : '#fb923c';
+             ctx.fillText(stability.isBuckled
+                 ? `α_cr = ${stability.alphaCr.toFixed(2)} ≤ 1 超過臨界載重 (Buckled)`
+                 : `P/P_cr = ${(stability.maxCompression / stability.Pcr).toFixed(3)}  B1 = ${stability.B1.toFixed(3)}`, W - pad, 48);
+        }
+        ctx.textAlign = 'left';
 
-        // Draw Loads
+        // Draw Loads (the selected load is highlighted with its drag handles)
         const loads = params.customLoads || [];
+        ctx.font = "10px monospace"; ctx.textAlign = 'center';
         loads.forEach(l => {
-             ctx.fillStyle = '#f43f5e'; ctx.strokeStyle = '#f43f5e';
-             if (l.type === 'P' && l.x !== undefined) {
+             const color = l.id === selectedId ? '#fbbf24' : '#f43f5e';
+             ctx.fillStyle = color; ctx.strokeStyle = color; ctx.lineWidth = l.id === selectedId ? 3 : 2;
+             if (l.type === 'N' && l.x !== undefined) {
+                 // Positive (compression) acts towards -x
+                 const px = xToPx(l.x);
+                 const dir = l.val >= 0 ? 1 : -1;
+                 const tail = px + dir * AXIAL_ARROW_PX;
+                 ctx.beginPath(); ctx.moveTo(tail, beamY); ctx.lineTo(px, beamY); ctx.stroke();
+                 ctx.beginPath(); ctx.moveTo(px, beamY); ctx.lineTo(px + dir*8, beamY-4); ctx.lineTo(px + dir*8, beamY+4); ctx.fill();
+                 ctx.fillText(`N ${l.val} ${getLoadCase(l)}`, (px + tail) / 2, beamY - 10);
+             } else if (l.type === 'P' && l.x !== undefined) {
                  const px = xToPx(l.x);
                  ctx.beginPath(); ctx.moveTo(px, beamY-40); ctx.lineTo(px, beamY); ctx.stroke();
                  ctx.beginPath(); ctx.moveTo(px, beamY); ctx.lineTo(px-4, beamY-8); ctx.lineTo(px+4, beamY-8); ctx.fill();
-                 ctx.fillText(`${l.val}`, px, beamY-45);
-             } else if (l.type === 'U' && l.x1 !== undefined && l.x2 !== undefined) {
-                 const x1 = xToPx(l.x1); const w = (l.x2 - l.x1)*scaleX;
-                 ctx.globalAlpha = 0.2; ctx.fillRect(x1, beamY-20, w, 20); ctx.globalAlpha = 1;
-                 ctx.strokeRect(x1, beamY-20, w, 20);
+                 ctx.fillText(`${l.val} ${getLoadCase(l)}`, px, beamY-45);
+             } else if (l.type === 'M' && l.x !== undefined) {
+                 // Arc arrow, counter-clockwise for positive moments
+                 const px = xToPx(l.x);
+                 const r = 14;
+                 const ccw = l.val >= 0;
+                 ctx.stroke(new Path2D(ccw
+                     ? `M ${px + r} ${beamY} A ${r} ${r} 0 1 0 ${px} ${beamY + r}`
+                     : `M ${px - r} ${beamY} A ${r} ${r} 0 1 1 ${px} ${beamY + r}`));
+                 const dir = ccw ? 1 : -1;
+                 ctx.beginPath(); ctx.moveTo(px + dir*5, beamY + r); ctx.lineTo(px - dir*2, beamY + r - 4); ctx.lineTo(px - dir*2, beamY + r + 4); ctx.fill();
+                 ctx.fillText(`${l.val} ${getLoadCase(l)}`, px, beamY - r - 6);
+             } else if ((l.type === 'U' || l.type === 'T') && l.x1 !== undefined && l.x2 !== undefined) {
+                 const x1 = xToPx(l.x1); const x2 = xToPx(l.x2); const w = x2 - x1;
+                 ctx.beginPath();
+                 if (l.type === 'U') {
+                     ctx.rect(x1, beamY-20, w, 20);
+                 } else {
+                     const peakX = l.peak === 'left' ? x1 : x2;
+                     ctx.moveTo(x1, beamY); ctx.lineTo(peakX, beamY-30); ctx.lineTo(x2, beamY); ctx.closePath();
+                 }
+                 ctx.globalAlpha = 0.2; ctx.fill(); ctx.globalAlpha = 1;
+                 ctx.stroke();
+                 ctx.fillText(`${l.val} ${getLoadCase(l)}`, x1 + w/2, beamY - (l.type === 'U' ? 24 : 34));
+                 if (l.id === selectedId) {
+                     [x1, x2].forEach(hx => ctx.fillRect(hx - 3, beamY - 4, 6, 8));
+                 }
              }
         });
+        // Self-weight: generated from the section, drawn apart from the editable loads
+        if (selfWeight) {
+             const x1 = xToPx(0); const x2 = xToPx(params.length);
+             ctx.fillStyle = '#94a3b8'; ctx.globalAlpha = 0.25;
+             ctx.fillRect(x1, beamY - 6, x2 - x1, 6);
+             ctx.globalAlpha = 1; ctx.textAlign = 'right';
+             ctx.fillText(`自重 w_sw = ${selfWeight.val.toFixed(1)} D`, x2, beamY + 52);
+        }
+        ctx.lineWidth = 1; ctx.textAlign = 'left';
 
         // Draw Diagrams
-        const { Vs, Ms } = analysisData;
-        const drawGraph = (data: number[], yOffset: number, color: string, label: string) => {
-             const h = 80;
-             const maxVal = Math.max(...data.map(Math.abs), 0.1);
+        const { xs, Vs, Ms, thetas, vs, maxDeflection, extremes } = analysisData;
+        // Dashed comparison lines: combination envelope (white), second-order P-Δ (orange)
+        type Overlay = { xs: number[]; values: number[]; color: string };
+        const drawGraph = (data: number[], yOffset: number, color: string, label: string, h: number = 80, overlays: Overlay[] = []) => {
+             const maxVal = Math.max(...data.map(Math.abs), ...overlays.flatMap(o => o.values.map(Math.abs)), 0.1);
              const sY = (h/2) / maxVal;
              
              // Base Line
@@ -131,18 +357,129 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
              ctx.strokeStyle = color; ctx.lineWidth = 2; ctx.fillStyle = color + '22';
              ctx.beginPath(); ctx.moveTo(pad, yOffset);
              data.forEach((v, i) => {
-                 const x = pad + (i / (data.length-1)) * (W-2*pad);
-                 ctx.lineTo(x, yOffset - v * sY);
+                 ctx.lineTo(xToPx(xs[i]), yOffset - v * sY);
              });
              ctx.lineTo(W-pad, yOffset);
              ctx.fill(); ctx.stroke();
+
+             ctx.setLineDash([5, 3]); ctx.lineWidth = 1.5;
+             overlays.forEach(o => {
+                 ctx.strokeStyle = o.color;
+                 ctx.beginPath();
+                 o.values.forEach((v, i) => {
+                     const px = xToPx(o.xs[i]);
+                     if (i === 0) ctx.moveTo(px, yOffset - v * sY); else ctx.lineTo(px, yOffset - v * sY);
+                 });
+                 ctx.stroke();
+             });
+             ctx.setLineDash([]);
+             return sY;
         };
 
-        const chartH = (H - 120) / 2;
-        drawGraph(Vs, 120 + chartH/2, '#3b82f6', 'Shear Force V(x)');
-        drawGraph(Ms, 120 + chartH + 20 + chartH/2, '#a855f7', 'Bending Moment M(x)');
+        const chartH = (H - 120) / 4;
+        const graphH = chartH - 30;
+        const fmt = (e: { value: number }) => e.value.toFixed(2);
+        const shearY = 120 + chartH/2;
+        const momentY = 120 + chartH + chartH/2;
+        const envelopeLines = (lines: number[][]): Overlay[] => envelope ? lines.map(values => ({ xs: envelope.xs, values, color: '#f8fafc' })) : [];
+        const pDelta = stability.maxCompression > 0 && !stability.isBuckled;
+        const sVs = drawGraph(Vs, shearY, '#3b82f6', `Shear Force V(x)   max ${fmt(extremes.Vmax)} / min ${fmt(extremes.Vmin)}`, graphH, envelope ? envelopeLines([envelope.Vmax, envelope.Vmin]) : []);
+        const sMs = drawGraph(
+             Ms, momentY, '#a855f7',
+             `Bending Moment M(x)   max ${fmt(extremes.Mmax)} / min ${fmt(extremes.Mmin)}${pDelta ? `   P-Δ ×${stability.amplification.toFixed(3)}` : ''}`,
+             graphH,
+             [...(envelope ? envelopeLines([envelope.Mmax, envelope.Mmin]) : []), ...(pDelta ? [{ xs: stability.xs, values: stability.M2, color: '#fb923c' }] : [])]
+        );
+
+        // Critical point annotations
+        const markPoint = (x: number, value: number, yOffset: number, sY: number, color: string, text: string, shape: 'dot' | 'ring') => {
+             const px = xToPx(x);
+             const py = yOffset - value * sY;
+             ctx.fillStyle = color; ctx.strokeStyle = color; ctx.lineWidth = 1.5;
+             ctx.beginPath(); ctx.arc(px, py, shape === 'dot' ? 3.5 : 4.5, 0, Math.PI*2);
+             if (shape === 'dot') ctx.fill(); else ctx.stroke();
+             ctx.font = "10px monospace";
+             ctx.textAlign = px > W - 120 ? 'right' : 'left';
+             ctx.fillText(text, px + (px > W - 120 ? -6 : 6), py + (value >= 0 ? -6 : 12));
+             ctx.textAlign = 'left';
+        };
+
+        criticalPoints.forEach(cp => {
+             switch (cp.type) {
+                 case 'Mmax': markPoint(cp.x, cp.M, momentY, sMs, '#f0abfc', `M+max ${cp.M.toFixed(1)} @${cp.x.toFixed(2)}`, 'dot'); break;
+                 case 'Mmin': markPoint(cp.x, cp.M, momentY, sMs, '#f0abfc', `M-max ${cp.M.toFixed(1)} @${cp.x.toFixed(2)}`, 'dot'); break;
+                 case 'Vmax': markPoint(cp.x, cp.V, shearY, sVs, '#93c5fd', `V+max ${cp.V.toFixed(1)}`, 'dot'); break;
+                 case 'Vmin': markPoint(cp.x, cp.V, shearY, sVs, '#93c5fd', `V-max ${cp.V.toFixed(1)}`, 'dot'); break;
+                 case 'zeroShear': markPoint(cp.x, 0, shearY, sVs, '#34d399', `V=0 @${cp.x.toFixed(2)}`, 'ring'); break;
+                 case 'inflection': markPoint(cp.x, 0, momentY, sMs, '#fb923c', `反曲點 @${cp.x.toFixed(2)}`, 'ring'); break;
+             }
+        });
+        const thetaY = 120 + 2*chartH + chartH/2;
+        const sTh = drawGraph(thetas, thetaY, '#14b8a6', 'Slope θ(x)', graphH);
+        const vY = 120 + 3*chartH + chartH/2;
+        const sV = drawGraph(vs, vY, '#eab308', 'Deflection v(x)', graphH, pDelta ? [{ xs: stability.xs, values: stability.v2, color: '#fb923c' }] : []);
+
+        // Mark maximum deflection
+        if (maxDeflection.v !== 0) {
+             const px = xToPx(maxDeflection.x);
+             const py = vY - maxDeflection.v * sV;
+             ctx.fillStyle = '#facc15';
+             ctx.beginPath(); ctx.arc(px, py, 4, 0, Math.PI*2); ctx.fill();
+             ctx.font = "11px monospace";
+             ctx.textAlign = px > W/2 ? 'right' : 'left';
+             ctx.fillText(`v_max = ${(maxDeflection.v*1000).toFixed(3)} mm @ x = ${maxDeflection.x.toFixed(2)} m`, px + (px > W/2 ? -8 : 8), py + (maxDeflection.v < 0 ? 14 : -8));
+             ctx.textAlign = 'left';
+        }
+
+        // Hover crosshair with a readout of the values at x
+        if (hoverX !== null) {
+             const px = xToPx(hoverX);
+             const at = sampleDiagrams(analysisData, hoverX);
+             const hasDeflection = vs.some(v => v !== 0);
+             const { I, area, cTop, cBottom } = calculateSectionProperties(params);
+             // MPa, N/A plus tension at the bottom for sagging
+             const sigmaN = area > 0 ? at.N / area : 0;
+             const sigmaTop = I > 0 ? (sigmaN - at.M * cTop / I) / 1e6 : 0;
+             const sigmaBottom = I > 0 ? (sigmaN + at.M * cBottom / I) / 1e6 : 0;
+             const k = stability.xs.findIndex(x => x >= hoverX);
+
+             ctx.strokeStyle = '#e2e8f0'; ctx.lineWidth = 1; ctx.setLineDash([4, 4]);
+             ctx.beginPath(); ctx.moveTo(px, beamY - 50); ctx.lineTo(px, H - 10); ctx.stroke();
+             ctx.setLineDash([]);
 
-    }, [params, analysisData]);
+             const dot = (value: number, yOffset: number, sY: number, color: string) => {
+                 ctx.fillStyle = color;
+                 ctx.beginPath(); ctx.arc(px, yOffset - value * sY, 3, 0, Math.PI*2); ctx.fill();
+             };
+             dot(at.V, shearY, sVs, '#3b82f6');
+             dot(at.M, momentY, sMs, '#a855f7');
+             if (hasDeflection) {
+                 dot(at.theta, thetaY, sTh, '#14b8a6');
+                 dot(at.v, vY, sV, '#eab308');
+             }
+
+             const lines = [
+                 `x = ${hoverX.toFixed(3)} m`,
+                 `V = ${at.V.toFixed(2)} N`,
+                 `M = ${at.M.toFixed(2)} N·m`,
+                 ...(hasAxial ? [`N = ${at.N.toFixed(2)} N`] : []),
+                 ...(pDelta && k >= 0 ? [`M_PΔ = ${stability.M2[k].toFixed(2)} N·m`] : []),
+                 ...(hasDeflection ? [`θ = ${at.theta.toExponential(3)} rad`, `v = ${(at.v*1000).toFixed(3)} mm`] : []),
+                 `σ_top = ${sigmaTop.toFixed(2)} MPa`,
+                 `σ_bot = ${sigmaBottom.toFixed(2)} MPa`
+             ];
+             ctx.font = "11px monospace";
+             const boxW = Math.max(...lines.map(t => ctx.measureText(t).width)) + 16;
+             const boxH = lines.length * 14 + 10;
+             const bx = px + boxW + 12 > W ? px - boxW - 8 : px + 8;
+             const by = 100;
+             ctx.fillStyle = 'rgba(15, 23, 42, 0.9)'; ctx.strokeStyle = '#475569';
+             ctx.fillRect(bx, by, boxW, boxH); ctx.strokeRect(bx, by, boxW, boxH);
+             ctx.fillStyle = '#e2e8f0'; ctx.textAlign = 'left';
+             lines.forEach((t, i) => ctx.fillText(t, bx + 8, by + 18 + i * 14));
+        }
+
+    }, [params, analysisData, criticalPoints, envelope, stability, selectedId, hoverX]);
 
     return (
         <div className="flex flex-col h-full bg-slate-900 text-slate-100 p-4 gap-4 overflow-hidden">
@@ -150,7 +487,7 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
             {/* Top Toolbar: Load Manager */}
             <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex flex-wrap items-center gap-4">
                 <div className="flex bg-slate-700 rounded p-1">
-                    {(['P','U','T','M'] as LoadType[]).map(t => (
+                    {(['P','U','T','M','N'] as LoadType[]).map(t => (
                         <button 
                             key={t}
                             onClick={() => setSelectedLoadType(t)}
@@ -175,42 +512,156 @@ const DiagramView: React.FC<DiagramViewProps> = ({ params, onChange }) => {
                         <input type="number" value={inputX2} onChange={e => setInputX2(+e.target.value)} className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1" />
                         </>
                     )}
+                    {selectedLoadType === 'N' && <span className="text-[10px] text-slate-400">軸力：正值為壓力 (指向 -x)</span>}
+                </div>
+
+                <div className="flex gap-2 items-center text-sm">
+                    <span>類別:</span>
+                    <select value={inputCase} onChange={e => setInputCase(e.target.value as LoadCase)} className="bg-slate-900 border border-slate-600 rounded px-2 py-1">
+                        {LOAD_CASES.map(([c, label]) => <option key={c} value={c}>{c} {label}</option>)}
+                    </select>
                 </div>
 
                 <button onClick={addLoad} className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-1.5 rounded text-sm font-bold shadow-lg transition-all active:scale-95">
                     + 加入載重
                 </button>
+                <label className="flex gap-2 items-center text-sm text-slate-300 cursor-pointer" title="自重由截面積與材料密度計算，無法刪除">
+                    <input type="checkbox" checked={!!params.includeSelfWeight} onChange={e => onChange({ ...params, includeSelfWeight: e.target.checked })} className="accent-slate-400" />
+                    含自重{selfWeight && <span className="font-mono text-slate-400">w_sw = {selfWeight.val.toFixed(1)} N/m</span>}
+                </label>
                 <button onClick={clearLoads} className="text-red-400 hover:text-red-300 text-sm underline ml-auto">
                     清空列表
                 </button>
             </div>
 
+            <LoadCombinationPanel params={params} onChange={onChange} envelope={envelope} />
+
+            {/* Selected Load Editor */}
+            {selectedLoad && (
+                <div className="bg-slate-800 p-3 rounded-lg border border-amber-500/50 flex flex-wrap items-center gap-4 text-sm">
+                    <span className="text-amber-400 font-bold">已選取 {selectedLoad.type} 載重</span>
+                    <div className="flex gap-2 items-center">
+                        <span>數值:</span>
+                        <input type="number" value={selectedLoad.val} onChange={e => updateLoad(selectedLoad.id, { val: +e.target.value })} className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1" />
+                    </div>
+                    {(selectedLoad.type === 'P' || selectedLoad.type === 'M' || selectedLoad.type === 'N') ? (
+                        <div className="flex gap-2 items-center">
+                            <span>位置 x:</span>
+                            <input type="number" step="0.05" value={selectedLoad.x ?? 0} onChange={e => updateLoad(selectedLoad.id, { x: +e.target.value })} className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1" />
+                        </div>
+                    ) : (
+                        <div className="flex gap-2 items-center">
+                            <span>範圍:</span>
+                            <input type="number" step="0.05" value={selectedLoad.x1 ?? 0} onChange={e => updateLoad(selectedLoad.id, { x1: +e.target.value, x: +e.target.value })} className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1" />
+                            <span>-</span>
+                            <input type="number" step="0.05" value={selectedLoad.x2 ?? params.length} onChange={e => updateLoad(selectedLoad.id, { x2: +e.target.value })} className="w-16 bg-slate-900 border border-slate-600 rounded px-2 py-1" />
+                        </div>
+                    )}
+                    <select value={getLoadCase(selectedLoad)} onChange={e => updateLoad(selectedLoad.id, { loadCase: e.target.value as LoadCase })} className="bg-slate-900 border border-slate-600 rounded px-2 py-1">
+                        {LOAD_CASES.map(([c, label]) => <option key={c} value={c}>{c} {label}</option>)}
+                    </select>
+                    {selectedLoad.type === 'T' && (
+                        <select value={selectedLoad.peak || 'right'} onChange={e => updateLoad(selectedLoad.id, { peak: e.target.value as 'left' | 'right' })} className="bg-slate-900 border border-slate-600 rounded px-2 py-1">
+                            <option value="left">峰值在左</option>
+                            <option value="right">峰值在右</option>
+                        </select>
+                    )}
+                    <button onClick={() => { removeLoad(selectedLoad.id); setSelectedId(null); }} className="text-red-400 hover:text-red-300 text-sm underline ml-auto">
+                        刪除此載重
+                    </button>
+                </div>
+            )}
+
             {/* Middle: Canvas */}
             <div className="flex-1 bg-slate-950 border border-slate-800 rounded-lg overflow-hidden relative shadow-inner">
                 <canvas 
                     ref={canvasRef} 
                     width={800} 
-                    height={400} 
+                    height={640} 
                     className="w-full h-full object-contain"
+                    onMouseDown={handleMouseDown}
+                    onMouseMove={handleMouseMove}
+                    onMouseUp={handleMouseUp}
+                    onMouseLeave={handleMouseLeave}
                 />
+                <div className="absolute bottom-2 right-3 text-[10px] text-slate-500 pointer-events-none">
+                    點選載重以編輯，拖曳載重、端點或支承以移動
+                </div>
             </div>
 
             {/* Bottom: Analysis Steps */}
             <div className="h-64 flex flex-col gap-3 overflow-y-auto pr-2 custom-scrollbar">
-                <h3 className="text-sm font-bold text-slate-400 uppercase sticky top-0 bg-slate-900 py-2 border-b border-slate-800">區段數學分析報告 (Detailed Analysis)</h3>
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                    {stepResults.map((step, idx) => (
-                         <div key={idx} className="bg-slate-800/50 border border-slate-700 p-4 rounded-lg">
-                             <div className="text-blue-400 text-xs font-mono font-bold mb-2">
-                                 Segment {idx+1}: {step.xA.toFixed(2)}m &lt; x &lt; {step.xB.toFixed(2)}m
-                             </div>
-                             <div className="text-sm text-slate-300 leading-relaxed space-y-2">
-                                 {/* Render HTML content safely */}
-                                 <div dangerouslySetInnerHTML={{ __html: step.eq }} />
-                             </div>
-                         </div>
-                    ))}
+                <div className="flex items-center justify-between sticky top-0 bg-slate-900 py-2 border-b border-slate-800 z-10">
+                    <h3 className="text-sm font-bold text-slate-400 uppercase">區段數學分析報告 (Detailed Analysis)</h3>
+                    <div className="flex bg-slate-700 rounded p-1">
+                        {([['segment', '分段法'], ['macaulay', '奇異函數法 (Macaulay)']] as const).map(([m, label]) => (
+                            <button
+                                key={m}
+                                onClick={() => setMethod(m)}
+                                className={`px-3 py-0.5 text-xs font-bold rounded ${method === m ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                            >
+                                {label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-lg">
+                    <div className="text-emerald-400 text-xs font-mono font-bold mb-2">
+                        支承反力 (Support Reactions)
+                    </div>
+                    <div className="text-sm text-slate-300 leading-relaxed space-y-2">
+                        <div dangerouslySetInnerHTML={{ __html: reactionSteps }} />
+                    </div>
                 </div>
+                {method === 'segment' ? (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                        {stepResults.map((step, idx) => (
+                             <div key={idx} className="bg-slate-800/50 border border-slate-700 p-4 rounded-lg">
+                                 <div className="text-blue-400 text-xs font-mono font-bold mb-2">
+                                     Segment {idx+1}: {step.xA.toFixed(2)}m &lt; x &lt; {step.xB.toFixed(2)}m
+                                 </div>
+                                 <div className="text-sm text-slate-300 leading-relaxed space-y-2">
+                                     {/* Render HTML content safely */}
+                                     <div dangerouslySetInnerHTML={{ __html: step.int }} />
+                                 </div>
+                             </div>
+                        ))}
+                    </div>
+                ) : (
+                    <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-lg">
+                        <div className="text-blue-400 text-xs font-mono font-bold mb-2">
+                            奇異函數法 (Singularity Functions): 0 ≤ x ≤ {params.length.toFixed(2)}m
+                        </div>
+                        <div className="text-sm text-slate-300 leading-relaxed space-y-2 overflow-x-auto">
+                            <div dangerouslySetInnerHTML={{ __html: macaulay.html }} />
+                        </div>
+                    </div>
+                )}
+
+                {/* Critical Points Table */}
+                <h3 className="text-sm font-bold text-slate-400 uppercase mt-2 py-2 border-b border-slate-800">關鍵點 (Critical Points)</h3>
+                <table className="w-full text-xs font-mono text-slate-300">
+                    <thead>
+                        <tr className="text-slate-500 text-left">
+                            <th className="py-1 font-normal">類型</th>
+                            <th className="py-1 font-normal text-right">x (m)</th>
+                            <th className="py-1 font-normal text-right">V(x)</th>
+                            <th className="py-1 font-normal text-right">M(x)</th>
+                            <th className="py-1 font-normal pl-4">備註</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {criticalPoints.map((cp, idx) => (
+                            <tr key={idx} className="border-t border-slate-800">
+                                <td className="py-1">{CRITICAL_POINT_LABELS[cp.type]}</td>
+                                <td className="py-1 text-right">{cp.x.toFixed(3)}</td>
+                                <td className="py-1 text-right">{cp.V.toFixed(2)}</td>
+                                <td className="py-1 text-right">{cp.M.toFixed(2)}</td>
+                                <td className="py-1 pl-4 text-slate-500">{cp.note || ''}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
             </div>
         </div>
     );
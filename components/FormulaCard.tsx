@@ -1,12 +1,15 @@
 import React from 'react';
 import { SimulationParams } from '../types';
+import { calculateSectionProperties } from '../utils/physics';
 
 interface FormulaCardProps {
     params: SimulationParams;
 }
 
 const FormulaCard: React.FC<FormulaCardProps> = ({ params }) => {
-    
+    const { centroid, cTop, cBottom } = calculateSectionProperties(params);
+    const isComposite = ['tee', 'channel', 'angle', 'custom'].includes(params.sectionType);
+
     // Helper to render fractions nicely
     const Fraction = ({ num, den }: { num: React.ReactNode, den: React.ReactNode }) => (
         <span className="inline-block align-middle text-center mx-1">
@@ -33,6 +36,11 @@ const FormulaCard: React.FC<FormulaCardProps> = ({ params }) => {
                     <span>y: 距中性軸距離</span>
                     <span>I: 慣性矩 (Inertia)</span>
                 </div>
+                {Math.abs(cTop - cBottom) > 1e-9 && (
+                    <div className="text-[10px] text-amber-400/80 mt-1 text-center font-mono">
+                        非對稱截面: y&#772; = {(centroid * 1000).toFixed(1)} mm, c_top = {(cTop * 1000).toFixed(1)} mm, c_bot = {(cBottom * 1000).toFixed(1)} mm
+                    </div>
+                )}
             </div>
 
             {/* Moment of Inertia Formula */}
@@ -51,16 +59,32 @@ const FormulaCard: React.FC<FormulaCardProps> = ({ params }) => {
                             <Fraction num={<span>&pi; &middot; d<sup>4</sup></span>} den="64" />
                         </>
                     )}
-                    {params.sectionType === 'ibeam' && (
+                    {(params.sectionType === 'ibeam' || params.sectionType === 'box') && (
                         <span className="text-sm">
                             I = <Fraction num={<span>BH<sup>3</sup> - bh<sup>3</sup></span>} den="12" />
                         </span>
                     )}
+                    {params.sectionType === 'tube' && (
+                        <>
+                            <span>I = </span>
+                            <Fraction num={<span>&pi;(D<sup>4</sup> - d<sup>4</sup>)</span>} den="64" />
+                        </>
+                    )}
+                    {isComposite && (
+                        <span className="text-sm">
+                            I = &Sigma;(I<sub>i</sub> + A<sub>i</sub>d<sub>i</sub><sup>2</sup>),&nbsp;
+                            y&#772; = <Fraction num={<span>&Sigma;A<sub>i</sub>y<sub>i</sub></span>} den={<span>&Sigma;A<sub>i</sub></span>} />
+                        </span>
+                    )}
                 </div>
                 <div className="text-[10px] text-slate-500 mt-1 text-center">
                     {params.sectionType === 'rectangular' && "b=寬度, h=高度"}
                     {params.sectionType === 'circular' && "d=直徑"}
                     {params.sectionType === 'ibeam' && "大矩形減去內部空心區域"}
+                    {params.sectionType === 'box' && "外矩形減去內部空心 (b = B-2t, h = H-2t)"}
+                    {params.sectionType === 'tube' && "D=外徑, d=內徑 (D-2t)"}
+                    {isComposite && params.sectionType !== 'custom' && "各板件平行軸定理，d_i 為板件形心至中性軸距離"}
+                    {params.sectionType === 'custom' && "多邊形輪廓以 Green 定理積分，孔洞以負面積扣除"}
                 </div>
             </div>
 
@@ -68,18 +92,42 @@ const FormulaCard: React.FC<FormulaCardProps> = ({ params }) => {
             <div className="text-sm text-slate-300 pt-2 border-t border-slate-800">
                 <div className="mb-1 text-xs text-yellow-400 font-semibold">最大變位 (Max Deflection)</div>
                 <div className="bg-slate-900/50 p-2 rounded flex items-center justify-center font-serif text-lg">
-                    {params.beamType === 'cantilever' ? (
+                    {params.beamType === 'cantilever' && (
                         <>
                             <span>&delta;<sub>max</sub> = </span>
                             <Fraction num={<span>P &middot; L<sup>3</sup></span>} den={<span>3 &middot; E &middot; I</span>} />
                         </>
-                    ) : (
+                    )}
+                    {(params.beamType === 'simplySupported' || params.beamType === 'overhanging') && (
                         <>
                              <span>&delta;<sub>max</sub> = </span>
                              <Fraction num={<span>P &middot; L<sup>3</sup></span>} den={<span>48 &middot; E &middot; I</span>} />
                         </>
                     )}
+                    {params.beamType === 'fixedFixed' && (
+                        <>
+                             <span>&delta;<sub>max</sub> = </span>
+                             <Fraction num={<span>P &middot; L<sup>3</sup></span>} den={<span>192 &middot; E &middot; I</span>} />
+                        </>
+                    )}
+                    {params.beamType === 'proppedCantilever' && (
+                        <>
+                             <span>&delta;<sub>max</sub> = </span>
+                             <Fraction num={<span>P &middot; L<sup>3</sup></span>} den={<span>48&radic;5 &middot; E &middot; I</span>} />
+                        </>
+                    )}
+                    {params.beamType === 'continuous' && (
+                        <span className="text-sm">K &middot; d = F <span className="text-xs text-slate-400">(勁度矩陣法)</span></span>
+                    )}
                 </div>
+                {params.beamFormulation === 'timoshenko' && (
+                    <div className="text-xs text-indigo-300 mt-1 text-center font-serif">
+                        Timoshenko: &delta; = &delta;<sub>b</sub> + &delta;<sub>s</sub>,&nbsp;
+                        {params.beamType === 'cantilever' && <>&delta;<sub>s</sub> = P&middot;L / (&kappa;GA)</>}
+                        {(params.beamType === 'simplySupported' || params.beamType === 'fixedFixed') && <>&delta;<sub>s</sub> = P&middot;L / (4&kappa;GA)</>}
+                        {!['cantilever', 'simplySupported', 'fixedFixed'].includes(params.beamType) && <>&delta;<sub>s</sub> = &int;V&middot;v&#772; / (&kappa;GA) dx</>}
+                    </div>
+                )}
                  <div className="text-[10px] text-slate-500 mt-1 text-center">
                     (當負載位於特定點時的近似公式)
                 </div>
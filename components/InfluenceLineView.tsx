@@ -0,0 +1,207 @@
+import React, { useMemo } from 'react';
+import { SimulationParams, AxleLoad } from '../types';
+import { calculateInfluenceLines, calculateMovingLoadEnvelope } from '../utils/influenceLines';
+
+interface InfluenceLineViewProps {
+    params: SimulationParams;
+    onChange: (newParams: SimulationParams) => void;
+}
+
+interface ChartLine {
+    values: number[];
+    color: string;
+    dashed?: boolean;
+}
+
+const CHART_W = 400;
+const CHART_H = 130;
+const CHART_PAD = 24;
+
+/**
+ * Line plot over the span with a zero line and the station marker (values scaled for display).
+ */
+const SpanChart: React.FC<{ title: string; unit: string; xs: number[]; lines: ChartLine[]; length: number; x0: number; scale?: number }> = ({
+    title, unit, xs, lines, length, x0, scale = 1
+}) => {
+    const all = lines.flatMap(l => l.values.map(v => v * scale));
+    const maxAbs = Math.max(1e-9, ...all.map(Math.abs));
+    const toX = (x: number) => CHART_PAD + x / length * (CHART_W - 2 * CHART_PAD);
+    const toY = (v: number) => CHART_H / 2 - v * scale / maxAbs * (CHART_H / 2 - 16);
+    const max = Math.max(...all), min = Math.min(...all);
+
+    return (
+        <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+            <div className="flex justify-between text-xs mb-1">
+                <span className="font-bold text-slate-300">{title}</span>
+                <span className="font-mono text-slate-400">max {max.toFixed(3)} / min {min.toFixed(3)} {unit}</span>
+            </div>
+            <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full">
+                <line x1={toX(0)} y1={CHART_H / 2} x2={toX(length)} y2={CHART_H / 2} stroke="#475569" />
+                <line x1={toX(x0)} y1={8} x2={toX(x0)} y2={CHART_H - 8} stroke="#fbbf24" strokeDasharray="3 2" />
+                {lines.map((l, k) => (
+                    <path
+                        key={k}
+                        d={`M ${xs.map((x, i) => `${toX(x)} ${toY(l.values[i])}`).join(' L ')}`}
+                        fill="none"
+                        stroke={l.color}
+                        strokeWidth={l.dashed ? 1.5 : 2}
+                        strokeDasharray={l.dashed ? '5 3' : undefined}
+                    />
+                ))}
+                <text x={toX(x0) + 4} y={14} fontSize="9" fill="#fbbf24">x₀</text>
+            </svg>
+        </div>
+    );
+};
+
+const InfluenceLineView: React.FC<InfluenceLineViewProps> = ({ params, onChange }) => {
+    const L = params.length;
+    const x0 = Math.max(0, Math.min(L, params.influenceStation ?? L / 2));
+    const axles = params.axleLoads || [];
+
+    const lines = useMemo(() => calculateInfluenceLines(params, x0), [params, x0]);
+    const envelope = useMemo(() => axles.length > 0 ? calculateMovingLoadEnvelope(params, axles, x0) : null, [params, axles, x0]);
+
+    const setAxles = (axleLoads: AxleLoad[]) => onChange({ ...params, axleLoads });
+    const updateAxle = (index: number, patch: Partial<AxleLoad>) =>
+        setAxles(axles.map((a, i) => i === index ? { ...a, ...patch } : a));
+    const addAxle = () => setAxles([...axles, { offset: Math.max(0, ...axles.map(a => a.offset)) + 1.5, load: axles[axles.length - 1]?.load ?? 50000 }]);
+    const removeAxle = (index: number) => setAxles(axles.filter((_, i) => i !== index));
+
+    const reactionName = (i: number) => `R_${String.fromCharCode(65 + i)}`;
+    const kN = (v: number) => (v / 1000).toFixed(2);
+    const at = (lead: number) => `車頭 @ ${lead.toFixed(2)} m`;
+
+    return (
+        <div className="flex h-full bg-slate-900 text-slate-100 p-4 gap-4 overflow-hidden">
+            {/* Left: influence lines */}
+            <div className="flex-1 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex flex-wrap items-center gap-4 text-sm">
+                    <span className="font-bold text-slate-300">影響線 (Influence Lines)</span>
+                    <div className="flex gap-2 items-center flex-1 min-w-[200px]">
+                        <span>測站 x₀:</span>
+                        <input
+                            type="range" min={0} max={L} step={0.05} value={x0}
+                            onChange={e => onChange({ ...params, influenceStation: Number(e.target.value) })}
+                            className="flex-1 h-1.5 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-amber-500"
+                        />
+                        <input
+                            type="number" min={0} max={L} step={0.05} value={x0}
+                            onChange={e => onChange({ ...params, influenceStation: Math.max(0, Math.min(L, Number(e.target.value))) })}
+                            className="w-20 bg-slate-900 border border-slate-600 rounded px-2 py-1"
+                        />
+                        <span className="text-slate-400">m</span>
+                    </div>
+                    <span className="text-[10px] text-slate-500">單位向下載重 (1 N) 沿樑移動</span>
+                </div>
+                {!lines.isStable && (
+                    <div className="text-xs text-red-400">支承配置不穩定 (Unstable supports)</div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                    {lines.reactions.map((r, i) => (
+                        <SpanChart
+                            key={i}
+                            title={`${reactionName(i)} (@ ${r.x.toFixed(2)} m)`}
+                            unit="N/N"
+                            xs={lines.xs}
+                            lines={[{ values: r.values, color: '#34d399' }]}
+                            length={L}
+                            x0={x0}
+                        />
+                    ))}
+                    <SpanChart title={`V(x₀ = ${x0.toFixed(2)} m)`} unit="N/N" xs={lines.xs} lines={[{ values: lines.V, color: '#3b82f6' }]} length={L} x0={x0} />
+                    <SpanChart title={`M(x₀ = ${x0.toFixed(2)} m)`} unit="N·m/N" xs={lines.xs} lines={[{ values: lines.M, color: '#a855f7' }]} length={L} x0={x0} />
+                </div>
+
+                {envelope && (
+                    <>
+                        <div className="text-xs font-bold text-slate-400 uppercase mt-2">移動載重包絡線 (Moving Load Envelope)</div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <SpanChart
+                                title="V 包絡 (kN)"
+                                unit="kN"
+                                xs={envelope.xs}
+                                lines={[{ values: envelope.Vmax, color: '#3b82f6' }, { values: envelope.Vmin, color: '#93c5fd', dashed: true }]}
+                                length={L}
+                                x0={x0}
+                                scale={1e-3}
+                            />
+                            <SpanChart
+                                title="M 包絡 (kN·m)"
+                                unit="kN·m"
+                                xs={envelope.xs}
+                                lines={[{ values: envelope.Mmax, color: '#a855f7' }, { values: envelope.Mmin, color: '#f0abfc', dashed: true }]}
+                                length={L}
+                                x0={x0}
+                                scale={1e-3}
+                            />
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {/* Right: axle group and extremes */}
+            <div className="w-72 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-xs font-bold text-slate-400 uppercase">輪軸組 (Axle Group)</div>
+                    <div className="grid grid-cols-[1fr_1fr_auto] gap-1 text-[10px] text-slate-500">
+                        <span>距車頭 (m)</span>
+                        <span>軸重 (N, 向下)</span>
+                        <span></span>
+                    </div>
+                    {axles.map((a, i) => (
+                        <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-1">
+                            <input
+                                type="number" min={0} step={0.1} value={a.offset}
+                                onChange={e => updateAxle(i, { offset: Math.max(0, Number(e.target.value)) })}
+                                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+                            />
+                            <input
+                                type="number" step={1000} value={a.load}
+                                onChange={e => updateAxle(i, { load: Number(e.target.value) })}
+                                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+                            />
+                            <button onClick={() => removeAxle(i)} className="px-1 text-slate-500 hover:text-red-400">✕</button>
+                        </div>
+                    ))}
+                    <button onClick={addAxle} className="w-full text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 py-1 rounded transition-colors">
+                        + 新增輪軸
+                    </button>
+                    <div className="text-[10px] text-slate-500">車隊由 x = 0 駛向 x = L，車頭之後的輪軸依距離排列。</div>
+                </div>
+
+                {envelope && (
+                    <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+                        <div className="text-xs font-bold text-slate-400 uppercase mb-2">極值 (Extremes)</div>
+                        <table className="w-full text-[10px] font-mono text-slate-300">
+                            <tbody>
+                                {([
+                                    [`M(x₀) max`, `${kN(envelope.station.Mmax.value)} kN·m`, envelope.station.Mmax.lead],
+                                    [`M(x₀) min`, `${kN(envelope.station.Mmin.value)} kN·m`, envelope.station.Mmin.lead],
+                                    [`V(x₀) max`, `${kN(envelope.station.Vmax.value)} kN`, envelope.station.Vmax.lead],
+                                    [`V(x₀) min`, `${kN(envelope.station.Vmin.value)} kN`, envelope.station.Vmin.lead],
+                                    ...envelope.reactions.flatMap((r, i) => [
+                                        [`${reactionName(i)} max`, `${kN(r.max.value)} kN`, r.max.lead],
+                                        [`${reactionName(i)} min`, `${kN(r.min.value)} kN`, r.min.lead]
+                                    ])
+                                ] as [string, string, number][]).map(([label, value, lead]) => (
+                                    <tr key={label} className="border-t border-slate-700/50" title={at(lead)}>
+                                        <td className="py-1 text-slate-400">{label}</td>
+                                        <td className="py-1 text-right text-white">{value}</td>
+                                        <td className="py-1 pl-2 text-right text-slate-500">{lead.toFixed(2)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="text-[10px] text-slate-500 mt-2">
+                            右欄為產生極值時的車頭位置 (m)；絕對最大彎矩 {kN(Math.max(...envelope.Mmax))} kN·m。
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default InfluenceLineView;
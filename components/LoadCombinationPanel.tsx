@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { SimulationParams } from '../types';
+import { CombinationEnvelope } from '../utils/structuralAnalysis';
+import { COMBINATION_CODES, getCombinationPreset, parseCombination, formatCombination } from '../utils/loadCombinations';
+
+interface LoadCombinationPanelProps {
+    params: SimulationParams;
+    onChange: (newParams: SimulationParams) => void;
+    envelope: CombinationEnvelope | null;
+}
+
+const LoadCombinationPanel: React.FC<LoadCombinationPanelProps> = ({ params, onChange, envelope }) => {
+    const [text, setText] = useState('1.2D+1.6L');
+    const combinations = params.loadCombinations || [];
+    const parsed = parseCombination(text);
+
+    const addPreset = (code: typeof COMBINATION_CODES[number][0]) => {
+        const preset = getCombinationPreset(code);
+        const ids = new Set(preset.map(c => c.id));
+        onChange({ ...params, loadCombinations: [...combinations.filter(c => !ids.has(c.id)), ...preset] });
+    };
+
+    const addCustom = () => {
+        if (!parsed) return;
+        const combination = { id: Date.now().toString(), name: formatCombination(parsed), factors: parsed };
+        onChange({ ...params, loadCombinations: [...combinations, combination] });
+    };
+
+    const removeCombination = (id: string) => {
+        onChange({
+            ...params,
+            loadCombinations: combinations.filter(c => c.id !== id),
+            activeCombination: params.activeCombination === id ? null : params.activeCombination
+        });
+    };
+
+    const clearCombinations = () => onChange({ ...params, loadCombinations: [], activeCombination: null });
+
+    const isGoverning = (id: string) => envelope && (envelope.governingMoment.combination.id === id || envelope.governingShear.combination.id === id);
+
+    return (
+        <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex flex-col gap-2 text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+                <span className="text-slate-300 font-bold">載重組合 (Combinations)</span>
+                <div className="flex gap-1">
+                    {COMBINATION_CODES.map(([code, label]) => (
+                        <button key={code} onClick={() => addPreset(code)} className="px-2 py-0.5 text-xs rounded bg-slate-700 text-slate-300 hover:bg-slate-600">
+                            + {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex gap-2 items-center">
+                    <input
+                        type="text"
+                        value={text}
+                        onChange={e => setText(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') addCustom(); }}
+                        placeholder="1.2D+1.6L"
+                        className={`w-40 bg-slate-900 border rounded px-2 py-1 font-mono ${parsed ? 'border-slate-600' : 'border-red-500'}`}
+                    />
+                    <button onClick={addCustom} disabled={!parsed} className="px-2 py-1 text-xs rounded bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-40">
+                        + 自訂組合
+                    </button>
+                </div>
+                {combinations.length > 0 && (
+                    <button onClick={clearCombinations} className="text-red-400 hover:text-red-300 text-xs underline ml-auto">
+                        清除組合
+                    </button>
+                )}
+            </div>
+            {combinations.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                    <button
+                        onClick={() => onChange({ ...params, activeCombination: null })}
+                        className={`px-2 py-0.5 text-xs rounded border ${params.activeCombination === null ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400'}`}
+                    >
+                        未組合 (Service)
+                    </button>
+                    {combinations.map(c => (
+                        <span
+                            key={c.id}
+                            className={`flex items-center rounded border text-xs font-mono ${params.activeCombination === c.id ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-300'} ${isGoverning(c.id) ? 'ring-1 ring-amber-400' : ''}`}
+                        >
+                            <button onClick={() => onChange({ ...params, activeCombination: c.id })} className="px-2 py-0.5" title={formatCombination(c.factors)}>
+                                {c.name}
+                            </button>
+                            <button onClick={() => removeCombination(c.id)} className="pr-2 text-slate-500 hover:text-red-400">✕</button>
+                        </span>
+                    ))}
+                    <span className="text-[10px] text-slate-500 self-center ml-2">虛線為包絡線，框線標示控制組合</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default LoadCombinationPanel;
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { SimulationParams } from '../types';
+import { Material, MaterialCategory, getAllMaterials, getMaterialParams, getActiveMaterial, saveUserMaterial, deleteUserMaterial } from '../utils/materials';
+
+interface MaterialPickerProps {
+    params: SimulationParams;
+    onChange: (newParams: SimulationParams) => void;
+}
+
+const CATEGORY_LABELS: [MaterialCategory | 'all', string][] = [
+    ['all', '全部'],
+    ['steel', '鋼'],
+    ['aluminum', '鋁'],
+    ['timber', '木'],
+    ['concrete', '混凝土'],
+    ['titanium', '鈦'],
+    ['user', '自訂']
+];
+
+// Properties not carried by the simulation parameters, entered when saving a material (display units)
+interface ExtraFields {
+    name: string;
+    G: string;          // GPa
+    ultimate: string;   // MPa
+    endurance: string;  // MPa, blank if not defined
+    alpha: string;      // µm/m·K
+}
+
+const MaterialPicker: React.FC<MaterialPickerProps> = ({ params, onChange }) => {
+    const [category, setCategory] = useState<MaterialCategory | 'all'>('all');
+    const [, setVersion] = useState(0); // Re-render after the user library changes
+    const [draft, setDraft] = useState<ExtraFields | null>(null);
+
+    const active = getActiveMaterial(params);
+    const materials = getAllMaterials().filter(m => category === 'all' || m.category === category);
+
+    const startDraft = () => {
+        const G = params.youngsModulus / (2 * (1 + params.poissonsRatio));
+        setDraft({
+            name: active ? `${active.name} (自訂)` : '自訂材料',
+            G: (G / 1e9).toFixed(1),
+            ultimate: ((active?.ultimateStrength ?? params.yieldStrength * 1.25) / 1e6).toFixed(0),
+            endurance: active?.enduranceLimit ? (active.enduranceLimit / 1e6).toFixed(0) : '',
+            alpha: ((active?.thermalExpansion ?? 12e-6) * 1e6).toFixed(1)
+        });
+    };
+
+    const saveDraft = () => {
+        if (!draft) return;
+        const num = (s: string) => Number(s);
+        const saved = saveUserMaterial({
+            name: draft.name.trim() || '自訂材料',
+            E: params.youngsModulus,
+            G: num(draft.G) > 0 ? num(draft.G) * 1e9 : params.youngsModulus / (2 * (1 + params.poissonsRatio)),
+            nu: params.poissonsRatio,
+            density: params.density,
+            yieldStrength: params.yieldStrength,
+            ultimateStrength: Math.max(params.yieldStrength, num(draft.ultimate) * 1e6 || 0),
+            enduranceLimit: draft.endurance.trim() && num(draft.endurance) > 0 ? num(draft.endurance) * 1e6 : null,
+            thermalExpansion: (num(draft.alpha) || 0) * 1e-6
+        });
+        setDraft(null);
+        setCategory('user');
+        onChange({ ...params, ...getMaterialParams(saved) });
+    };
+
+    const remove = (m: Material) => {
+        deleteUserMaterial(m.id);
+        if (params.materialId === m.id) onChange({ ...params, materialId: null });
+        else setVersion(v => v + 1);
+    };
+
+    const field = (key: keyof ExtraFields, label: string) => (
+        <label className="flex justify-between items-center gap-2 text-[10px] text-slate-400">
+            {label}
+            <input
+                type={key === 'name' ? 'text' : 'number'}
+                value={draft?.[key] ?? ''}
+                onChange={(e) => draft && setDraft({ ...draft, [key]: e.target.value })}
+                className={`${key === 'name' ? 'w-32' : 'w-20 text-right'} bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-white focus:outline-none focus:border-indigo-500`}
+            />
+        </label>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-1">
+                {CATEGORY_LABELS.map(([c, label]) => (
+                    <button
+                        key={c}
+                        onClick={() => setCategory(c)}
+                        className={`flex-1 text-[10px] py-0.5 rounded border ${category === c ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <div className="max-h-32 overflow-y-auto custom-scrollbar border border-slate-800 rounded">
+                {materials.map(m => (
+                    <div
+                        key={m.id}
+                        className={`flex items-center hover:bg-slate-700 ${active?.id === m.id ? 'bg-indigo-900/50 text-indigo-300' : 'text-slate-300'}`}
+                    >
+                        <button
+                            onClick={() => onChange({ ...params, ...getMaterialParams(m) })}
+                            className="flex-1 flex justify-between px-2 py-1 text-[10px] font-mono text-left"
+                        >
+                            <span>{m.name}</span>
+                            <span className="text-slate-500">{(m.E / 1e9).toFixed(0)} GPa · {(m.yieldStrength / 1e6).toFixed(0)} MPa</span>
+                        </button>
+                        {m.category === 'user' && (
+                            <button onClick={() => remove(m)} className="px-2 text-[10px] text-slate-500 hover:text-red-400" title="刪除">✕</button>
+                        )}
+                    </div>
+                ))}
+                {materials.length === 0 && <div className="px-2 py-1 text-[10px] text-slate-500">尚無自訂材料</div>}
+            </div>
+            {active && (
+                <div className="bg-slate-800/50 border border-indigo-700/50 rounded p-2 text-[10px] font-mono text-slate-300 grid grid-cols-2 gap-x-2">
+                    <span className="col-span-2 text-indigo-400 font-bold">{active.name}{active.standard ? ` (${active.standard})` : ''}</span>
+                    <span>E = {(active.E / 1e9).toFixed(1)} GPa</span>
+                    <span>G = {(active.G / 1e9).toFixed(2)} GPa</span>
+                    <span>ν = {active.nu.toFixed(2)}</span>
+                    <span>ρ = {active.density.toFixed(0)} kg/m³</span>
+                    <span>σy = {(active.yieldStrength / 1e6).toFixed(0)} MPa</span>
+                    <span>σu = {(active.ultimateStrength / 1e6).toFixed(0)} MPa</span>
+                    <span>Se = {active.enduranceLimit ? `${(active.enduranceLimit / 1e6).toFixed(0)} MPa` : '—'}</span>
+                    <span>α = {(active.thermalExpansion * 1e6).toFixed(1)} µm/m·K</span>
+                </div>
+            )}
+            {draft ? (
+                <div className="bg-slate-800/50 border border-slate-700 rounded p-2 space-y-1">
+                    <div className="text-[10px] text-slate-500">以目前的 E、ν、σy、ρ 建立材料</div>
+                    {field('name', '名稱')}
+                    {field('G', 'G (GPa)')}
+                    {field('ultimate', 'σu (MPa)')}
+                    {field('endurance', 'Se (MPa)')}
+                    {field('alpha', 'α (µm/m·K)')}
+                    <div className="grid grid-cols-2 gap-1 pt-1">
+                        <button onClick={saveDraft} className="text-[10px] bg-indigo-600 hover:bg-indigo-500 text-white py-1 rounded">儲存</button>
+                        <button onClick={() => setDraft(null)} className="text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 py-1 rounded">取消</button>
+                    </div>
+                </div>
+            ) : (
+                <button onClick={startDraft} className="w-full text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 py-1 rounded transition-colors">
+                    + 另存為自訂材料
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default MaterialPicker;
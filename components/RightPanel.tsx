@@ -2,7 +2,13 @@ import React from 'react';
 import { SimulationInstance } from '../types';
 import CrossSectionVisualizer from './CrossSectionVisualizer';
 import FormulaCard from './FormulaCard';
-import { calculateBeamPhysics, calculateBeamStats } from '../utils/physics';
+import { solveBeam, calculateBeamStats, calculatePlaneStressStats, calculateDeflectionComponents, calculateSectionProperties } from '../utils/physics';
+import { solvePlaneStress } from '../utils/planeStress';
+import { calculateCombinationEnvelope } from '../utils/structuralAnalysis';
+import { findCombination } from '../utils/loadCombinations';
+import { calculateModes } from '../utils/modalAnalysis';
+import { calculateStability } from '../utils/stability';
+import { calculateLateralBuckling } from '../utils/lateralBuckling';
 
 interface RightPanelProps {
     simulation: SimulationInstance;
@@ -12,24 +18,61 @@ const RightPanel: React.FC<RightPanelProps> = ({ simulation }) => {
     const { params } = simulation;
     
     // Calculate results on the fly
-    const elements = calculateBeamPhysics(params);
-    const { maxStress, maxDeflection } = calculateBeamStats(elements);
+    const solution = solveBeam(params);
+    const { maxStress, maxDeflection, maxShearStress, maxVonMises, maxPrincipal, minPrincipal } = calculateBeamStats(params, solution);
     
-    // Calculate Safety Factor
-    const safetyFactor = params.yieldStrength / Math.max(1, Math.abs(maxStress));
+    const deflectionParts = calculateDeflectionComponents(params, solution);
     
-    // Reaction Calculation
-    let R1 = 0, R2 = 0, M1 = 0;
-    if (params.beamType === 'cantilever') {
-        R1 = Math.abs(params.force);
-        M1 = Math.abs(params.force * params.loadPosition);
-    } else {
-        const L = params.length;
-        const a = params.loadPosition;
-        const b = L - a;
-        R1 = Math.abs(params.force * b / L);
-        R2 = Math.abs(params.force * a / L);
-    }
+    // Calculate Safety Factor (von Mises yield criterion)
+    const safetyFactor = params.yieldStrength / Math.max(1, maxVonMises);
+    
+    // Plane-stress FEA for comparison with beam theory
+    const planeStress = params.analysisModel === 'planeStress' ? solvePlaneStress(params) : null;
+    const feStats = planeStress ? calculatePlaneStressStats(planeStress) : null;
+    // Row thicknesses follow the section width, so show their range
+    const feThickness = planeStress
+        ? Array.from(new Set([Math.min(...planeStress.thickness), Math.max(...planeStress.thickness)].map(t => (t * 1000).toFixed(1)))).join('–')
+        : '';
+    const percentDiff = (fe: number, beam: number) => beam !== 0 ? `${((fe / beam - 1) * 100).toFixed(1)}%` : '-';
+
+    // Section property report (cm-based units as in steel tables)
+    const section = calculateSectionProperties(params);
+    const sectionRows: [string, string, string][] = [
+        ['A', (section.area * 1e4).toFixed(2), 'cm²'],
+        ['Ix', (section.Ix * 1e8).toFixed(0), 'cm⁴'],
+        ['Iy', (section.Iy * 1e8).toFixed(0), 'cm⁴'],
+        ['ȳ (距底)', (section.centroid * 1000).toFixed(1), 'mm'],
+        ['Sx 頂 / 底', `${(section.sectionModulusTop * 1e6).toFixed(1)} / ${(section.sectionModulusBottom * 1e6).toFixed(1)}`, 'cm³'],
+        ['Sy', (section.sectionModulusY * 1e6).toFixed(1), 'cm³'],
+        ['Zx', (section.plasticModulus * 1e6).toFixed(1), 'cm³'],
+        ['形狀因子 Zx/Sx', section.shapeFactor.toFixed(3), ''],
+        ['rx / ry', `${(section.rx * 1000).toFixed(1)} / ${(section.ry * 1000).toFixed(1)}`, 'mm'],
+        ['J', section.torsionConstant !== null ? (section.torsionConstant * 1e8).toFixed(2) : '—', 'cm⁴'],
+        ['Cw', section.warpingConstant !== null ? (section.warpingConstant * 1e12).toFixed(0) : '—', 'cm⁶'],
+        ['單位重 m', section.massPerLength.toFixed(1), 'kg/m']
+    ];
+
+    // Load combinations: governing combination for |M| and |V|
+    const envelope = calculateCombinationEnvelope(params);
+    const activeCombination = findCombination(params);
+    const absM = (e: { Mmax: { value: number }; Mmin: { value: number } }) => Math.max(Math.abs(e.Mmax.value), Math.abs(e.Mmin.value));
+    const absV = (e: { Vmax: { value: number }; Vmin: { value: number } }) => Math.max(Math.abs(e.Vmax.value), Math.abs(e.Vmin.value));
+
+    // Natural frequencies against the vibration serviceability limit
+    const modal = calculateModes(params);
+    const f1 = modal.modes[0]?.frequency ?? 0;
+    const vibrationOk = f1 >= params.vibrationLimit;
+
+    // Lateral-torsional buckling of I-beams and channels (governing unbraced segment)
+    const ltb = calculateLateralBuckling(params);
+    const ltbSegment = ltb?.governing ?? null;
+
+    // Euler buckling load and P-Δ amplification of the axial loads
+    const stability = calculateStability(params);
+    const kN = (v: number) => Number.isFinite(v) ? (v / 1000).toFixed(1) : '∞';
+
+    // Support reactions from the stiffness solution (Fy < 0 means the support holds the beam down)
+    const reactions = solution.reactions;
 
     const getSafetyColor = (sf: number) => {
         if (sf < 1.0) return 'text-red-500';
@@ -67,14 +110,49 @@ const RightPanel: React.FC<RightPanelProps> = ({ simulation }) => {
                             </div>
                          </div>
 
+                         {/* Combined stresses */}
+                         <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs font-mono">
+                            <span className="text-slate-400">最大剪應力 τ</span>
+                            <span className="text-right text-slate-300">{(maxShearStress / 1e6).toFixed(2)} MPa</span>
+                            <span className="text-slate-400">von Mises</span>
+                            <span className={`text-right ${maxVonMises > params.yieldStrength ? 'text-red-400' : 'text-slate-300'}`}>{(maxVonMises / 1e6).toFixed(1)} MPa</span>
+                            <span className="text-slate-400">σ1 / σ2</span>
+                            <span className="text-right text-slate-300">{(maxPrincipal / 1e6).toFixed(1)} / {(minPrincipal / 1e6).toFixed(1)}</span>
+                         </div>
+
                          {/* Safety Factor */}
                          <div className="flex justify-between items-center">
-                            <span className="text-xs text-slate-400">安全係數 (F.O.S)</span>
+                            <span className="text-xs text-slate-400">安全係數 (F.O.S, von Mises)</span>
                             <span className={`text-lg font-bold font-mono ${getSafetyColor(safetyFactor)}`}>
                                 {safetyFactor > 10 ? '>10' : safetyFactor.toFixed(2)}
                             </span>
                         </div>
 
+                        {/* Lateral-torsional buckling */}
+                        {ltb && ltbSegment && (
+                            <div className="pt-2 border-t border-slate-700 space-y-1">
+                                <div className="flex justify-between items-center">
+                                    <span className="text-xs text-slate-400">側向扭轉挫屈 M/Mn (LTB)</span>
+                                    <span className={`text-lg font-bold font-mono ${ltb.utilization > 1 ? 'text-red-500' : ltb.utilization > 1 / 1.5 ? 'text-yellow-400' : 'text-emerald-400'}`}>
+                                        {ltb.utilization.toFixed(2)}
+                                    </span>
+                                </div>
+                                <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs font-mono">
+                                    <span className="text-slate-400">Mn (LTB) / Mp</span>
+                                    <span className="text-right text-slate-300">{(ltbSegment.Mn / 1000).toFixed(1)} / {(ltb.Mp / 1000).toFixed(1)} kN·m</span>
+                                    <span className="text-slate-400">Mcr</span>
+                                    <span className="text-right text-slate-300">{(ltbSegment.Mcr / 1000).toFixed(1)} kN·m</span>
+                                    <span className="text-slate-400">Lb / Cb</span>
+                                    <span className="text-right text-slate-300">{ltbSegment.Lb.toFixed(2)} m / {ltbSegment.Cb.toFixed(2)}</span>
+                                    <span className="text-slate-400">Lp / Lr</span>
+                                    <span className="text-right text-slate-300">{ltb.Lp.toFixed(2)} / {ltb.Lr.toFixed(2)} m</span>
+                                </div>
+                                <div className="text-[10px] text-slate-500">
+                                    控制段 {ltbSegment.x1.toFixed(2)}–{ltbSegment.x2.toFixed(2)} m{ltbSegment.isCantilever && ' (懸臂, Cb = 1)'}，AISC 360 F2，載重作用於剪力中心
+                                </div>
+                            </div>
+                        )}
+
                         {/* Deflection */}
                         <div className="pt-2 border-t border-slate-700 grid grid-cols-2 gap-2">
                             <div>
@@ -85,29 +163,276 @@ const RightPanel: React.FC<RightPanelProps> = ({ simulation }) => {
                                 <span className="text-[10px] text-slate-500 block">允許變位 (L/360)</span>
                                 <span className="text-xs font-mono text-slate-400">{(params.length * 1000 / 360).toFixed(1)} mm</span>
                             </div>
+                            {params.beamFormulation === 'timoshenko' && (
+                                <div className="col-span-2 text-[10px] font-mono text-slate-400 space-y-0.5">
+                                    <div className="flex justify-between">
+                                        <span>彎曲變位 (Bending)</span>
+                                        <span>{(Math.abs(deflectionParts.bending) * 1000).toFixed(3)} mm</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>剪力變位 (Shear)</span>
+                                        <span className="text-indigo-300">
+                                            {(Math.abs(deflectionParts.shear) * 1000).toFixed(3)} mm
+                                            ({deflectionParts.total !== 0 ? (deflectionParts.shear / deflectionParts.total * 100).toFixed(1) : '0.0'}%)
+                                        </span>
+                                    </div>
+                                </div>
+                            )}
                         </div>
 
                          {/* Reactions */}
                          <div className="pt-2 border-t border-slate-700">
                             <span className="text-[10px] text-slate-500 block mb-1">支承反力</span>
+                            {!solution.isStable && (
+                                <div className="text-[10px] text-red-400 mb-1">支承配置不穩定 (Unstable supports)</div>
+                            )}
                             <div className="space-y-1 text-xs font-mono text-slate-300">
-                                <div className="flex justify-between"><span>R_left</span><span>{R1.toFixed(0)} N</span></div>
-                                {params.beamType === 'simplySupported' && (
-                                    <div className="flex justify-between"><span>R_right</span><span>{R2.toFixed(0)} N</span></div>
-                                )}
-                                {params.beamType === 'cantilever' && (
-                                    <div className="flex justify-between"><span>M_wall</span><span>{(M1 / 1000).toFixed(1)} kN·m</span></div>
-                                )}
+                                {reactions.map((r, i) => {
+                                    const name = String.fromCharCode(65 + i);
+                                    const isUplift = r.Fy < 0;
+                                    return (
+                                        <React.Fragment key={i}>
+                                            <div className="flex justify-between">
+                                                <span>R_{name} <span className="text-slate-500">@ {r.x.toFixed(2)}m</span></span>
+                                                <span className={isUplift ? 'text-orange-400' : ''}>
+                                                    {r.Fy.toFixed(0)} N{isUplift && ' ↓ 上拔'}
+                                                </span>
+                                            </div>
+                                            {r.type === 'fixed' && (
+                                                <div className="flex justify-between"><span>M_{name}</span><span>{(r.Mz / 1000).toFixed(1)} kN·m</span></div>
+                                            )}
+                                            {r.Fx !== 0 && (
+                                                <div className="flex justify-between"><span>H_{name}</span><span>{r.Fx.toFixed(0)} N</span></div>
+                                            )}
+                                        </React.Fragment>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Load combinations */}
+                {envelope && (
+                    <div className="space-y-3">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">載重組合 (Combinations)</h3>
+                        <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2 text-xs font-mono">
+                            <div className="flex justify-between text-[10px]">
+                                <span className="text-slate-500">目前顯示</span>
+                                <span className="text-slate-300">{activeCombination ? activeCombination.name : '未組合 (Service)'}</span>
+                            </div>
+                            <div className="bg-amber-900/20 border border-amber-700/50 rounded p-2 space-y-1">
+                                <div className="flex justify-between">
+                                    <span className="text-amber-400">控制彎矩</span>
+                                    <span className="text-white">{envelope.governingMoment.combination.name}</span>
+                                </div>
+                                <div className="flex justify-between text-slate-300">
+                                    <span>|M|max</span>
+                                    <span>{(absM(envelope.governingMoment.extremes) / 1000).toFixed(2)} kN·m</span>
+                                </div>
+                                <div className="flex justify-between text-slate-300">
+                                    <span>σ = M·c / I</span>
+                                    <span>{section.I > 0 ? (absM(envelope.governingMoment.extremes) * Math.max(section.cTop, section.cBottom) / section.I / 1e6).toFixed(1) : '—'} MPa</span>
+                                </div>
+                                <div className="flex justify-between pt-1 border-t border-amber-700/30">
+                                    <span className="text-amber-400">控制剪力</span>
+                                    <span className="text-white">{envelope.governingShear.combination.name}</span>
+                                </div>
+                                <div className="flex justify-between text-slate-300">
+                                    <span>|V|max</span>
+                                    <span>{(absV(envelope.governingShear.extremes) / 1000).toFixed(2)} kN</span>
+                                </div>
                             </div>
+                            <table className="w-full text-[10px] text-slate-300">
+                                <thead>
+                                    <tr className="text-slate-500">
+                                        <th className="text-left font-normal">組合</th>
+                                        <th className="text-right font-normal">|M| kN·m</th>
+                                        <th className="text-right font-normal">|V| kN</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {envelope.results.map(r => (
+                                        <tr key={r.combination.id}>
+                                            <td className="truncate max-w-[9rem]">{r.combination.name}</td>
+                                            <td className={`text-right ${r === envelope.governingMoment ? 'text-amber-400' : ''}`}>{(absM(r.extremes) / 1000).toFixed(2)}</td>
+                                            <td className={`text-right ${r === envelope.governingShear ? 'text-amber-400' : ''}`}>{(absV(r.extremes) / 1000).toFixed(2)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
                         </div>
                     </div>
+                )}
+
+                {/* Axial force and stability */}
+                <div className="space-y-3">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">軸力與穩定 (Axial / Stability)</h3>
+                    <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-1 text-xs font-mono text-slate-300">
+                        <div className="flex justify-between"><span>P_cr (Euler)</span><span>{kN(stability.Pcr)} kN</span></div>
+                        <div className="flex justify-between">
+                            <span>K / L_e</span>
+                            <span>{Number.isFinite(stability.effectiveLengthFactor) ? `${stability.effectiveLengthFactor.toFixed(2)} / ${(stability.effectiveLengthFactor * params.length).toFixed(2)} m` : '-'}</span>
+                        </div>
+                        <div className="flex justify-between"><span>最大壓力 N_c</span><span>{kN(stability.maxCompression)} kN</span></div>
+                        {stability.maxTension > 0 && (
+                            <div className="flex justify-between"><span>最大拉力 N_t</span><span>{kN(stability.maxTension)} kN</span></div>
+                        )}
+                        {stability.maxCompression > 0 && (
+                            <>
+                                <div className="flex justify-between"><span>N_c / P_cr</span><span>{(stability.maxCompression / stability.Pcr).toFixed(3)}</span></div>
+                                <div className="flex justify-between">
+                                    <span>α_cr</span>
+                                    <span className={stability.isBuckled ? 'text-red-400 font-bold' : stability.alphaCr < 10 ? 'text-orange-400' : ''}>{stability.alphaCr.toFixed(2)}</span>
+                                </div>
+                                {stability.isBuckled ? (
+                                    <div className="text-[10px] text-red-400">軸壓力超過臨界載重，構件挫屈 (Buckled)</div>
+                                ) : (
+                                    <>
+                                        <div className="flex justify-between"><span>B1 = 1/(1-N/P_cr)</span><span>{stability.B1.toFixed(3)}</span></div>
+                                        <div className="flex justify-between"><span>P-Δ M₂/M₁</span><span>{stability.amplification.toFixed(3)}</span></div>
+                                    </>
+                                )}
+                            </>
+                        )}
+                        {(stability.maxCompression > 0 || stability.maxTension > 0) && !stability.isBuckled && (
+                            <div className="flex justify-between pt-2 border-t border-slate-700">
+                                <span>N/A ± M₂c/I</span>
+                                <span className={Math.max(stability.sigmaMax, -stability.sigmaMin) > params.yieldStrength ? 'text-red-400' : ''}>
+                                    {(stability.sigmaMax / 1e6).toFixed(1)} / {(stability.sigmaMin / 1e6).toFixed(1)} MPa
+                                </span>
+                            </div>
+                        )}
+                        {stability.alphaCr < 10 && stability.alphaCr > 1 && (
+                            <div className="text-[10px] text-orange-400">α_cr &lt; 10：需考慮二階效應 (EN 1993-1-1 5.2.1)</div>
+                        )}
+                    </div>
                 </div>
 
+                {/* Modal analysis */}
+                <div className="space-y-3">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">自然頻率 (Modal)</h3>
+                    <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+                        {modal.rigidModes > 0 && (
+                            <div className="text-[10px] text-red-400">支承不足，有 {modal.rigidModes} 個剛體模態 (Mechanism)</div>
+                        )}
+                        <table className="w-full text-xs font-mono text-slate-300">
+                            <thead>
+                                <tr className="text-[10px] text-slate-500">
+                                    <th className="text-left font-normal">模態</th>
+                                    <th className="text-right font-normal">f (Hz)</th>
+                                    <th className="text-right font-normal">T (s)</th>
+                                    <th className="text-right font-normal">質量參與</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {modal.modes.map((m, i) => (
+                                    <tr key={i} className={params.animatedMode === i ? 'text-indigo-300' : ''}>
+                                        <td>{i + 1}</td>
+                                        <td className="text-right">{m.frequency.toFixed(2)}</td>
+                                        <td className="text-right">{m.period.toFixed(3)}</td>
+                                        <td className="text-right">{(m.massRatio * 100).toFixed(1)}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {modal.modes.length > 0 && (
+                            <div className="flex justify-between items-center pt-2 border-t border-slate-700 text-xs">
+                                <span className="text-slate-400">f₁ ≥ {params.vibrationLimit} Hz</span>
+                                <span className={`font-mono font-bold ${vibrationOk ? 'text-emerald-400' : 'text-red-400'}`}>
+                                    {vibrationOk ? 'OK' : '不足 (Lively)'}
+                                </span>
+                            </div>
+                        )}
+                        <div className="text-[10px] text-slate-500">一致質量矩陣 m = ρA = {modal.massPerLength.toFixed(1)} kg/m</div>
+                    </div>
+                </div>
+
+                {/* FEA vs beam theory */}
+                {planeStress && feStats && (
+                    <div className="space-y-3">
+                        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">Q4 平面應力 vs 梁理論</h3>
+                        <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700">
+                            {!planeStress.isStable && (
+                                <div className="text-[10px] text-red-400 mb-1">有限元素模型不穩定 (Unstable FE model)</div>
+                            )}
+                            <table className="w-full text-xs font-mono text-slate-300">
+                                <thead>
+                                    <tr className="text-[10px] text-slate-500">
+                                        <th className="text-left font-normal"></th>
+                                        <th className="text-right font-normal">FEA</th>
+                                        <th className="text-right font-normal">梁理論</th>
+                                        <th className="text-right font-normal">差異</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    <tr>
+                                        <td>max |σx| (MPa)</td>
+                                        <td className="text-right">{(feStats.maxStress / 1e6).toFixed(1)}</td>
+                                        <td className="text-right">{(maxStress / 1e6).toFixed(1)}</td>
+                                        <td className="text-right text-amber-400">{percentDiff(feStats.maxStress, maxStress)}</td>
+                                    </tr>
+                                    <tr>
+                                        <td>max τxy (MPa)</td>
+                                        <td className="text-right">{(feStats.maxShearStress / 1e6).toFixed(2)}</td>
+                                        <td className="text-right">{(maxShearStress / 1e6).toFixed(2)}</td>
+                                        <td className="text-right text-amber-400">{percentDiff(feStats.maxShearStress, maxShearStress)}</td>
+                                    </tr>
+                                    <tr>
+                                        <td>von Mises (MPa)</td>
+                                        <td className="text-right">{(feStats.maxVonMises / 1e6).toFixed(1)}</td>
+                                        <td className="text-right">{(maxVonMises / 1e6).toFixed(1)}</td>
+                                        <td className="text-right text-amber-400">{percentDiff(feStats.maxVonMises, maxVonMises)}</td>
+                                    </tr>
+                                    <tr>
+                                        <td>max |v| (mm)</td>
+                                        <td className="text-right">{(feStats.maxDeflection * 1000).toFixed(2)}</td>
+                                        <td className="text-right">{(maxDeflection * 1000).toFixed(2)}</td>
+                                        <td className="text-right text-amber-400">{percentDiff(feStats.maxDeflection, maxDeflection)}</td>
+                                    </tr>
+                                </tbody>
+                            </table>
+                            <p className="text-[10px] text-slate-500 mt-2">
+                                網格 {planeStress.nx}×{planeStress.ny}，等效厚度 t = {feThickness} mm。L/h 越小，剪力變形與局部應力使兩者差異越大。
+                            </p>
+                        </div>
+                    </div>
+                )}
+
                 {/* 2. Cross Section Visualizer */}
                 <div>
                      <CrossSectionVisualizer params={params} maxStress={maxStress} />
                 </div>
 
+                {/* Section properties */}
+                <div className="space-y-3">
+                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">截面性質 (Section Properties)</h3>
+                    <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700">
+                        {section.geometryError && (
+                            <div className="text-[10px] text-red-400 bg-red-500/10 border border-red-500/40 rounded px-2 py-1 mb-2">
+                                截面尺寸無效：{section.geometryError}。目前以實心外框矩形計算。
+                            </div>
+                        )}
+                        {section.steelShape && (
+                            <div className="text-[10px] text-teal-400 mb-1">{section.steelShape.designation}：A、Ix、Sx、Zx 採型錄值</div>
+                        )}
+                        <table className="w-full text-xs font-mono text-slate-300">
+                            <tbody>
+                                {sectionRows.map(([label, value, unit]) => (
+                                    <tr key={label}>
+                                        <td className="text-slate-400">{label}</td>
+                                        <td className="text-right">{value}</td>
+                                        <td className="pl-1 text-[10px] text-slate-500">{unit}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {section.torsionConstant === null && (
+                            <p className="text-[10px] text-slate-500 mt-2">自訂截面的 J 需數值解 (未計算)。</p>
+                        )}
+                    </div>
+                </div>
+
                 {/* 3. Formulas */}
                 <FormulaCard params={params} />
 
@@ -0,0 +1,350 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SimulationParams, SectionPolygon, SectionPoint } from '../types';
+import { buildCustomShape, analyzeSection, energyShearArea, firstMomentAbove } from '../utils/sectionGeometry';
+
+// Drawing area (px) and editing grid
+const VIEW = 420;
+const SNAP = 0.005; // m
+const CIRCLE_SEGMENTS = 48;
+
+type Primitive = 'rect' | 'circle';
+
+interface SectionEditorProps {
+    params: SimulationParams;
+    onChange: (newParams: SimulationParams) => void;
+}
+
+const snap = (v: number) => Math.round(v / SNAP) * SNAP;
+const newId = () => `${Date.now()}-${Math.round(Math.random() * 1e6)}`;
+const fmt = (v: number) => Math.abs(v) < 1e-15 ? '0' : v.toExponential(3);
+
+const SectionEditor: React.FC<SectionEditorProps> = ({ params, onChange }) => {
+    const [polygons, setPolygons] = useState<SectionPolygon[]>(params.customSection || []);
+    const [activeId, setActiveId] = useState<string | null>(params.customSection?.[0]?.id ?? null);
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [primitive, setPrimitive] = useState<Primitive>('rect');
+    // Primitive dimensions in mm: width/diameter, height, anchor x/y (bottom-left or centre)
+    const [dims, setDims] = useState({ b: 100, h: 20, x: 0, y: 0 });
+    const [primitiveHole, setPrimitiveHole] = useState(false);
+    const svgRef = useRef<SVGSVGElement>(null);
+
+    // The draft follows the applied section when another simulation is selected
+    useEffect(() => {
+        setPolygons(params.customSection || []);
+        setActiveId(params.customSection?.[0]?.id ?? null);
+    }, [params.customSection]);
+
+    const shape = useMemo(() => buildCustomShape(polygons), [polygons]);
+    const section = useMemo(() => shape ? analyzeSection(shape) : null, [shape]);
+    const shearArea = useMemo(() => shape ? energyShearArea(shape) : 0, [shape]);
+    const active = polygons.find(p => p.id === activeId) || null;
+
+    // Square view around all points with a margin
+    const all = polygons.flatMap(p => p.points);
+    const minX = all.length ? Math.min(...all.map(q => q.x)) : -0.1;
+    const maxX = all.length ? Math.max(...all.map(q => q.x)) : 0.1;
+    const minY = all.length ? Math.min(...all.map(q => q.y)) : 0;
+    const maxY = all.length ? Math.max(...all.map(q => q.y)) : 0.2;
+    const span = Math.max(0.1, maxX - minX, maxY - minY) * 1.4;
+    const cx = (minX + maxX) / 2, cy = (minY + maxY) / 2;
+    const scale = VIEW / span;
+    const sx = (x: number) => VIEW / 2 + (x - cx) * scale;
+    const sy = (y: number) => VIEW / 2 - (y - cy) * scale;
+    const gridStep = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5].find(s => span / s <= 20) ?? 1;
+
+    const toWorld = (e: React.MouseEvent): SectionPoint | null => {
+        const svg = svgRef.current;
+        if (!svg) return null;
+        const rect = svg.getBoundingClientRect();
+        const px = (e.clientX - rect.left) * VIEW / rect.width;
+        const py = (e.clientY - rect.top) * VIEW / rect.height;
+        return { x: snap(cx + (px - VIEW / 2) / scale), y: snap(cy - (py - VIEW / 2) / scale) };
+    };
+
+    const updatePolygon = (id: string, patch: Partial<SectionPolygon>) =>
+        setPolygons(polygons.map(p => p.id === id ? { ...p, ...patch } : p));
+
+    const updatePoint = (index: number, point: SectionPoint) => {
+        if (!active) return;
+        updatePolygon(active.id, { points: active.points.map((q, i) => i === index ? point : q) });
+    };
+
+    const addPolygon = (isHole: boolean) => {
+        const polygon: SectionPolygon = { id: newId(), points: [], isHole };
+        setPolygons([...polygons, polygon]);
+        setActiveId(polygon.id);
+    };
+
+    const removePolygon = (id: string) => {
+        const rest = polygons.filter(p => p.id !== id);
+        setPolygons(rest);
+        if (activeId === id) setActiveId(rest[0]?.id ?? null);
+    };
+
+    const addPrimitive = () => {
+        const mm = 0.001;
+        const { b, h, x, y } = dims;
+        const points: SectionPoint[] = primitive === 'rect'
+            ? [{ x: x * mm, y: y * mm }, { x: (x + b) * mm, y: y * mm }, { x: (x + b) * mm, y: (y + h) * mm }, { x: x * mm, y: (y + h) * mm }]
+            : Array.from({ length: CIRCLE_SEGMENTS }, (_, k) => {
+                const a = 2 * Math.PI * k / CIRCLE_SEGMENTS;
+                return { x: (x + b / 2 * Math.cos(a)) * mm, y: (y + b / 2 * Math.sin(a)) * mm };
+            });
+        const polygon: SectionPolygon = { id: newId(), points, isHole: primitiveHole };
+        setPolygons([...polygons, polygon]);
+        setActiveId(polygon.id);
+    };
+
+    // Click on the drawing adds a vertex to the active outline
+    const handleClick = (e: React.MouseEvent) => {
+        if (!active || dragIndex !== null) return;
+        const point = toWorld(e);
+        if (point) updatePolygon(active.id, { points: [...active.points, point] });
+    };
+
+    const handleMouseMove = (e: React.MouseEvent) => {
+        if (dragIndex === null) return;
+        const point = toWorld(e);
+        if (point) updatePoint(dragIndex, point);
+    };
+
+    const applySection = () => {
+        if (!shape) return;
+        onChange({ ...params, sectionType: 'custom', steelShape: null, customSection: polygons, height: shape.depth });
+    };
+
+    // Q(y) and b(y) over the depth for the small chart
+    const qCurve = useMemo(() => {
+        if (!shape || !section) return [];
+        return Array.from({ length: 81 }, (_, k) => {
+            const y = shape.depth * k / 80;
+            return { y, ...firstMomentAbove(shape, section.yc, y) };
+        });
+    }, [shape, section]);
+    const qMax = Math.max(1e-12, ...qCurve.map(p => p.Q));
+
+    const origin = shape?.origin ?? { x: 0, y: 0 };
+    const centroid = section ? { x: section.xc + origin.x, y: section.yc + origin.y } : null;
+    const axisLength = span;
+
+    const rows: [string, string, string][] = section ? [
+        ['A', fmt(section.area), 'm²'],
+        ['x̄, ȳ', `${(centroid!.x * 1000).toFixed(1)}, ${(centroid!.y * 1000).toFixed(1)}`, 'mm'],
+        ['Ix', fmt(section.Ix), 'm⁴'],
+        ['Iy', fmt(section.Iy), 'm⁴'],
+        ['Ixy', fmt(section.Ixy), 'm⁴'],
+        ['I₁ / I₂', `${fmt(section.I1)} / ${fmt(section.I2)}`, 'm⁴'],
+        ['θp', (section.principalAngle * 180 / Math.PI).toFixed(2), '°'],
+        ['S_top / S_bot', `${fmt(section.sectionModulusTop)} / ${fmt(section.sectionModulusBottom)}`, 'm³'],
+        ['Zx', fmt(section.plasticModulus), 'm³'],
+        ['rx / ry', `${(section.rx * 1000).toFixed(1)} / ${(section.ry * 1000).toFixed(1)}`, 'mm'],
+        ['Q_max', fmt(firstMomentAbove(shape!, section.yc, section.yc).Q), 'm³'],
+        ['κA', fmt(shearArea), 'm²']
+    ] : [];
+
+    return (
+        <div className="flex h-full bg-slate-900 text-slate-100 p-4 gap-4 overflow-hidden">
+            {/* Left: outline list and vertex table */}
+            <div className="w-64 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-xs font-bold text-slate-400 uppercase">輪廓 (Outlines)</div>
+                    {polygons.map((p, i) => (
+                        <div key={p.id} className={`flex items-center gap-2 text-xs px-2 py-1 rounded border cursor-pointer ${p.id === activeId ? 'border-amber-500/60 bg-slate-900' : 'border-slate-700'}`} onClick={() => setActiveId(p.id)}>
+                            <span className={p.isHole ? 'text-rose-400' : 'text-teal-400'}>{p.isHole ? '孔洞' : '外框'} {i + 1}</span>
+                            <span className="text-slate-500">{p.points.length} 點</span>
+                            <label className="ml-auto flex items-center gap-1 text-slate-400" onClick={e => e.stopPropagation()}>
+                                <input type="checkbox" checked={p.isHole} onChange={e => updatePolygon(p.id, { isHole: e.target.checked })} />
+                                孔
+                            </label>
+                            <button onClick={e => { e.stopPropagation(); removePolygon(p.id); }} className="text-red-400 hover:text-red-300">✕</button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2">
+                        <button onClick={() => addPolygon(false)} className="flex-1 text-[10px] py-1 rounded border border-slate-600 bg-slate-700 hover:bg-slate-600">+ 新增外框</button>
+                        <button onClick={() => addPolygon(true)} className="flex-1 text-[10px] py-1 rounded border border-slate-600 bg-slate-700 hover:bg-slate-600">+ 新增孔洞</button>
+                    </div>
+                </div>
+
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-xs font-bold text-slate-400 uppercase">基本形狀 (Primitives, mm)</div>
+                    <div className="flex bg-slate-700 rounded p-1">
+                        {([['rect', '矩形'], ['circle', '圓形']] as [Primitive, string][]).map(([k, label]) => (
+                            <button key={k} onClick={() => setPrimitive(k)} className={`flex-1 text-xs py-0.5 rounded ${primitive === k ? 'bg-blue-600 text-white' : 'text-slate-400'}`}>{label}</button>
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-[10px] text-slate-400">
+                        {([
+                            ['b', primitive === 'rect' ? '寬 b' : '直徑 d'],
+                            ...(primitive === 'rect' ? [['h', '高 h']] : []),
+                            ['x', primitive === 'rect' ? '左下 x' : '圓心 x'],
+                            ['y', primitive === 'rect' ? '左下 y' : '圓心 y']
+                        ] as [keyof typeof dims, string][]).map(([key, label]) => (
+                            <label key={key} className="space-y-0.5">
+                                <span>{label}</span>
+                                <input type="number" value={dims[key]} onChange={e => setDims({ ...dims, [key]: +e.target.value })} className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white" />
+                            </label>
+                        ))}
+                    </div>
+                    <label className="flex items-center gap-2 text-xs text-slate-400">
+                        <input type="checkbox" checked={primitiveHole} onChange={e => setPrimitiveHole(e.target.checked)} />
+                        作為孔洞 (Hole)
+                    </label>
+                    <button onClick={addPrimitive} className="w-full bg-emerald-600 hover:bg-emerald-500 text-white py-1 rounded text-xs font-bold">+ 加入形狀</button>
+                </div>
+
+                {active && (
+                    <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-1">
+                        <div className="text-xs font-bold text-slate-400 uppercase">頂點 (Vertices, mm)</div>
+                        {active.points.map((q, i) => (
+                            <div key={i} className="flex items-center gap-1 text-xs">
+                                <span className="w-5 text-slate-500">{i + 1}</span>
+                                <input type="number" value={+(q.x * 1000).toFixed(2)} onChange={e => updatePoint(i, { ...q, x: +e.target.value / 1000 })} className="w-16 bg-slate-900 border border-slate-600 rounded px-1 py-0.5" />
+                                <input type="number" value={+(q.y * 1000).toFixed(2)} onChange={e => updatePoint(i, { ...q, y: +e.target.value / 1000 })} className="w-16 bg-slate-900 border border-slate-600 rounded px-1 py-0.5" />
+                                <button onClick={() => updatePolygon(active.id, { points: active.points.filter((_, k) => k !== i) })} className="text-red-400 hover:text-red-300 ml-auto">✕</button>
+                            </div>
+                        ))}
+                        {active.points.length === 0 && <div className="text-[10px] text-slate-500">在圖上點擊以加入頂點</div>}
+                    </div>
+                )}
+            </div>
+
+            {/* Middle: drawing */}
+            <div className="flex-1 flex flex-col gap-2 min-w-0">
+                <div className="flex-1 bg-slate-950 border border-slate-800 rounded-lg overflow-hidden relative flex items-center justify-center">
+                    <svg
+                        ref={svgRef}
+                        viewBox={`0 0 ${VIEW} ${VIEW}`}
+                        className="h-full max-h-full aspect-square cursor-crosshair"
+                        onClick={handleClick}
+                        onMouseMove={handleMouseMove}
+                        onMouseUp={() => setTimeout(() => setDragIndex(null), 0)}
+                        onMouseLeave={() => setDragIndex(null)}
+                    >
+                        {/* Grid */}
+                        {Array.from({ length: Math.ceil(span / gridStep) + 2 }, (_, k) => {
+                            const gx = (Math.floor((cx - span / 2) / gridStep) + k) * gridStep;
+                            const gy = (Math.floor((cy - span / 2) / gridStep) + k) * gridStep;
+                            return (
+                                <g key={k}>
+                                    <line x1={sx(gx)} y1={0} x2={sx(gx)} y2={VIEW} stroke="#1e293b" />
+                                    <line x1={0} y1={sy(gy)} x2={VIEW} y2={sy(gy)} stroke="#1e293b" />
+                                </g>
+                            );
+                        })}
+                        <line x1={sx(0)} y1={0} x2={sx(0)} y2={VIEW} stroke="#334155" />
+                        <line x1={0} y1={sy(0)} x2={VIEW} y2={sy(0)} stroke="#334155" />
+
+                        {/* Outlines: holes drawn over the filled outlines */}
+                        {[...polygons].sort((a, b) => Number(a.isHole) - Number(b.isHole)).map(p => p.points.length > 0 && (
+                            <polygon
+                                key={p.id}
+                                points={p.points.map(q => `${sx(q.x)},${sy(q.y)}`).join(' ')}
+                                fill={p.isHole ? '#020617' : 'rgba(45, 212, 191, 0.25)'}
+                                stroke={p.id === activeId ? '#f59e0b' : p.isHole ? '#fb7185' : '#2dd4bf'}
+                                strokeWidth={p.id === activeId ? 2 : 1.5}
+                                strokeDasharray={p.isHole ? '4 2' : undefined}
+                            />
+                        ))}
+
+                        {/* Vertices of the active outline (drag to move) */}
+                        {active?.points.map((q, i) => (
+                            <circle
+                                key={i}
+                                cx={sx(q.x)}
+                                cy={sy(q.y)}
+                                r={4}
+                                fill={i === dragIndex ? '#f59e0b' : '#fbbf24'}
+                                className="cursor-move"
+                                onMouseDown={e => { e.stopPropagation(); setDragIndex(i); }}
+                                onClick={e => e.stopPropagation()}
+                            />
+                        ))}
+
+                        {/* Centroid, neutral axis and principal axes */}
+                        {section && centroid && (
+                            <g pointerEvents="none">
+                                <line x1={0} y1={sy(centroid.y)} x2={VIEW} y2={sy(centroid.y)} stroke="#fbbf24" strokeDasharray="5 3" />
+                                {[section.principalAngle, section.principalAngle + Math.PI / 2].map((a, k) => (
+                                    <line
+                                        key={k}
+                                        x1={sx(centroid.x - Math.cos(a) * axisLength)}
+                                        y1={sy(centroid.y - Math.sin(a) * axisLength)}
+                                        x2={sx(centroid.x + Math.cos(a) * axisLength)}
+                                        y2={sy(centroid.y + Math.sin(a) * axisLength)}
+                                        stroke="#a855f7"
+                                        strokeWidth={1}
+                                        strokeDasharray={k === 0 ? undefined : '2 3'}
+                                    />
+                                ))}
+                                <circle cx={sx(centroid.x)} cy={sy(centroid.y)} r={5} fill="none" stroke="#fbbf24" strokeWidth={2} />
+                                <text x={sx(centroid.x) + 8} y={sy(centroid.y) - 6} fontSize="11" fill="#fbbf24">C</text>
+                            </g>
+                        )}
+                    </svg>
+                    <div className="absolute bottom-2 right-3 text-[10px] text-slate-500 pointer-events-none">
+                        點擊加入頂點 · 拖曳頂點移動 · 格線 {gridStep * 1000} mm · 紫線為主軸 (I₁ 實線)
+                    </div>
+                </div>
+                <div className="flex items-center gap-3">
+                    {!shape && <span className="text-xs text-red-400">需至少一個有效外框 (≥ 3 個頂點)</span>}
+                    <button
+                        onClick={applySection}
+                        disabled={!shape}
+                        className="ml-auto bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-4 py-1.5 rounded text-sm font-bold"
+                    >
+                        套用至模型 (Apply as Custom Section)
+                    </button>
+                </div>
+            </div>
+
+            {/* Right: properties and Q(y) */}
+            <div className="w-72 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+                    <div className="text-xs font-bold text-slate-400 uppercase mb-2">截面性質 (Properties)</div>
+                    <table className="w-full text-xs font-mono">
+                        <tbody>
+                            {rows.map(([label, value, unit]) => (
+                                <tr key={label} className="border-t border-slate-700/50">
+                                    <td className="py-1 text-slate-400">{label}</td>
+                                    <td className="py-1 text-right text-white">{value}</td>
+                                    <td className="py-1 pl-1 text-slate-500">{unit}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="text-[10px] text-slate-500 mt-2">
+                        Green 定理計算；Ix、S、Z 對水平形心軸，θp 為 I₁ 主軸與 x 軸夾角。
+                    </div>
+                </div>
+
+                {shape && section && (
+                    <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+                        <div className="text-xs font-bold text-slate-400 uppercase mb-2">一次矩 Q(y) 與寬度 b(y)</div>
+                        <svg viewBox="0 0 240 160" className="w-full">
+                            <line x1={20} y1={150} x2={20} y2={10} stroke="#475569" />
+                            <line x1={20} y1={150 - section.yc / shape.depth * 140} x2={235} y2={150 - section.yc / shape.depth * 140} stroke="#fbbf24" strokeDasharray="3 2" />
+                            <path
+                                d={`M ${qCurve.map(p => `${20 + p.Q / qMax * 200} ${150 - p.y / shape.depth * 140}`).join(' L ')}`}
+                                fill="none"
+                                stroke="#3b82f6"
+                                strokeWidth={2}
+                            />
+                            <path
+                                d={`M ${qCurve.map(p => `${20 + p.b / Math.max(1e-12, ...qCurve.map(c => c.b)) * 200} ${150 - p.y / shape.depth * 140}`).join(' L ')}`}
+                                fill="none"
+                                stroke="#2dd4bf"
+                                strokeWidth={1}
+                                strokeDasharray="4 2"
+                            />
+                            <text x={24} y={20} fontSize="9" fill="#3b82f6">Q(y)</text>
+                            <text x={60} y={20} fontSize="9" fill="#2dd4bf">b(y)</text>
+                            <text x={200} y={146 - section.yc / shape.depth * 140} fontSize="9" fill="#fbbf24">N.A.</text>
+                        </svg>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default SectionEditor;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { SimulationParams } from '../types';
+import { SteelShapeFamily, searchSteelShapes, getSteelShapeParams, getActiveSteelShape } from '../utils/steelShapes';
+
+interface SteelShapePickerProps {
+    params: SimulationParams;
+    onChange: (newParams: SimulationParams) => void;
+}
+
+const FAMILY_LABELS: [SteelShapeFamily | 'all', string][] = [
+    ['all', '全部'],
+    ['H', 'H (JIS/CNS)'],
+    ['W', 'W'],
+    ['C', 'C'],
+    ['HSS', 'HSS']
+];
+
+const SteelShapePicker: React.FC<SteelShapePickerProps> = ({ params, onChange }) => {
+    const [query, setQuery] = useState('');
+    const [family, setFamily] = useState<SteelShapeFamily | 'all'>('all');
+
+    const results = searchSteelShapes(query, family === 'all' ? undefined : family);
+    const active = getActiveSteelShape(params);
+
+    return (
+        <div className="space-y-2">
+            <label className="text-[10px] text-slate-400">鋼材型錄 (Steel Catalog)</label>
+            <div className="flex gap-1">
+                {FAMILY_LABELS.map(([f, label]) => (
+                    <button
+                        key={f}
+                        onClick={() => setFamily(f)}
+                        className={`flex-1 text-[10px] py-0.5 rounded border ${family === f ? 'bg-teal-700 border-teal-600 text-white' : 'bg-slate-800 border-slate-700 text-slate-400'}`}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+            <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="搜尋型號，如 H300x150、W14、HSS8"
+                className="w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-teal-500"
+            />
+            <div className="max-h-32 overflow-y-auto custom-scrollbar border border-slate-800 rounded">
+                {results.map(s => (
+                    <button
+                        key={s.designation}
+                        onClick={() => onChange({ ...params, ...getSteelShapeParams(s) })}
+                        className={`w-full flex justify-between px-2 py-1 text-[10px] font-mono text-left hover:bg-slate-700 ${active?.designation === s.designation ? 'bg-teal-900/50 text-teal-300' : 'text-slate-300'}`}
+                    >
+                        <span>{s.designation}</span>
+                        <span className="text-slate-500">{s.mass.toFixed(1)} kg/m</span>
+                    </button>
+                ))}
+                {results.length === 0 && <div className="px-2 py-1 text-[10px] text-slate-500">無符合的型號</div>}
+            </div>
+            {active && (
+                <div className="bg-slate-800/50 border border-teal-700/50 rounded p-2 text-[10px] font-mono text-slate-300 grid grid-cols-2 gap-x-2">
+                    <span className="col-span-2 text-teal-400 font-bold">{active.designation} ({active.standard})</span>
+                    <span>A = {(active.area * 1e4).toFixed(2)} cm²</span>
+                    <span>m = {active.mass.toFixed(1)} kg/m</span>
+                    <span>Ix = {(active.Ix * 1e8).toFixed(0)} cm⁴</span>
+                    <span>Sx = {(active.Sx * 1e6).toFixed(1)} cm³</span>
+                    <span>Zx = {(active.Zx * 1e6).toFixed(1)} cm³</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SteelShapePicker;
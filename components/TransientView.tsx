@@ -0,0 +1,276 @@
+import React, { useMemo, useState } from 'react';
+import { SimulationParams, TransientParams, DynamicLoadType } from '../types';
+import { calculateTransientResponse, parseTimeSeries, DYNAMIC_LOAD_TYPES } from '../utils/transientAnalysis';
+
+interface TransientViewProps {
+    params: SimulationParams;
+    onChange: (newParams: SimulationParams) => void;
+}
+
+interface ChartLine {
+    values: number[];
+    color: string;
+}
+
+const CHART_W = 400;
+const CHART_H = 130;
+const CHART_PAD = 24;
+const STATION_COLORS = ['#3b82f6', '#a855f7', '#34d399', '#f59e0b', '#f43f5e'];
+
+/**
+ * Time-history plot with a zero line (values scaled for display).
+ */
+const TimeChart: React.FC<{ title: string; unit: string; times: number[]; lines: ChartLine[]; scale?: number }> = ({
+    title, unit, times, lines, scale = 1
+}) => {
+    const all = lines.flatMap(l => l.values.map(v => v * scale));
+    const maxAbs = Math.max(1e-12, ...all.map(Math.abs));
+    const duration = Math.max(1e-9, times[times.length - 1] ?? 0);
+    const toX = (t: number) => CHART_PAD + t / duration * (CHART_W - 2 * CHART_PAD);
+    const toY = (v: number) => CHART_H / 2 - v * scale / maxAbs * (CHART_H / 2 - 16);
+    const max = all.length > 0 ? Math.max(...all) : 0;
+    const min = all.length > 0 ? Math.min(...all) : 0;
+
+    return (
+        <div className="bg-slate-800 p-3 rounded-lg border border-slate-700">
+            <div className="flex justify-between text-xs mb-1">
+                <span className="font-bold text-slate-300">{title}</span>
+                <span className="font-mono text-slate-400">max {max.toFixed(3)} / min {min.toFixed(3)} {unit}</span>
+            </div>
+            <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full">
+                <line x1={toX(0)} y1={CHART_H / 2} x2={toX(duration)} y2={CHART_H / 2} stroke="#475569" />
+                {lines.map((l, k) => (
+                    <path
+                        key={k}
+                        d={`M ${times.map((t, i) => `${toX(t)} ${toY(l.values[i])}`).join(' L ')}`}
+                        fill="none"
+                        stroke={l.color}
+                        strokeWidth={1.5}
+                    />
+                ))}
+                <text x={CHART_W - CHART_PAD} y={CHART_H - 4} fontSize="9" fill="#64748b" textAnchor="end">t = {duration.toFixed(2)} s</text>
+            </svg>
+        </div>
+    );
+};
+
+const TransientView: React.FC<TransientViewProps> = ({ params, onChange }) => {
+    const L = params.length;
+    const transient = params.transient;
+    const [seriesText, setSeriesText] = useState(() => transient.series.map(([t, f]) => `${t}, ${f}`).join('\n'));
+    const [seriesError, setSeriesError] = useState(false);
+
+    const result = useMemo(() => calculateTransientResponse(params), [params]);
+
+    const update = (patch: Partial<TransientParams>) => onChange({ ...params, transient: { ...transient, ...patch } });
+    const updateStation = (index: number, x: number) =>
+        update({ stations: transient.stations.map((s, i) => i === index ? Math.max(0, Math.min(L, x)) : s) });
+    const addStation = () => update({ stations: [...transient.stations, L / 2] });
+    const removeStation = (index: number) => update({ stations: transient.stations.filter((_, i) => i !== index) });
+
+    const applySeries = (text: string) => {
+        setSeriesText(text);
+        const series = parseTimeSeries(text);
+        setSeriesError(!series);
+        if (series) update({ series });
+    };
+
+    const loadCsvFile = (file: File | undefined) => {
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => applySeries(String(reader.result ?? ''));
+        reader.readAsText(file);
+    };
+
+    const toggleAnimation = () => onChange({ ...params, animatedMode: null, transient: { ...transient, animate: !transient.animate } });
+
+    const numberField = (label: string, value: number, onValue: (v: number) => void, step: number, min: number = 0) => (
+        <div className="space-y-1">
+            <label className="text-[10px] text-slate-400">{label}</label>
+            <input
+                type="number" min={min} step={step} value={value}
+                onChange={e => onValue(Math.max(min, Number(e.target.value)))}
+                className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+            />
+        </div>
+    );
+
+    return (
+        <div className="flex h-full bg-slate-900 text-slate-100 p-4 gap-4 overflow-hidden">
+            {/* Left: time histories */}
+            <div className="flex-1 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 flex flex-wrap items-center gap-4 text-sm">
+                    <span className="font-bold text-slate-300">時間歷程分析 (Transient Response)</span>
+                    <span className="text-[10px] text-slate-500">Newmark-β (平均加速度法) + Rayleigh 阻尼，由靜止開始</span>
+                    <button
+                        onClick={toggleAnimation}
+                        className={`ml-auto px-3 py-1 text-xs rounded border ${transient.animate ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-300 hover:bg-slate-700'}`}
+                    >
+                        {transient.animate ? '■ 停止動畫' : '▶ 於應力圖播放'}
+                    </button>
+                </div>
+                {!result.isStable && (
+                    <div className="text-xs text-red-400">支承配置不穩定或斷面無質量，無法進行動力分析</div>
+                )}
+
+                {result.isStable && (
+                    <>
+                        <TimeChart
+                            title={`F(t) @ x = ${Math.max(0, Math.min(L, transient.x)).toFixed(2)} m (kN, 向下為正)`}
+                            unit="kN"
+                            times={result.times}
+                            lines={[{ values: result.force, color: '#ef4444' }]}
+                            scale={1e-3}
+                        />
+                        <TimeChart
+                            title="撓度 v(t) (mm)"
+                            unit="mm"
+                            times={result.times}
+                            lines={result.stations.map((s, i) => ({ values: s.v, color: STATION_COLORS[i % STATION_COLORS.length] }))}
+                            scale={1e3}
+                        />
+                        <TimeChart
+                            title="彎曲應力 σ(t) = M·c / I (MPa)"
+                            unit="MPa"
+                            times={result.times}
+                            lines={result.stations.map((s, i) => ({ values: s.sigma, color: STATION_COLORS[i % STATION_COLORS.length] }))}
+                            scale={1e-6}
+                        />
+                    </>
+                )}
+            </div>
+
+            {/* Right: load definition and results */}
+            <div className="w-72 flex flex-col gap-3 overflow-y-auto custom-scrollbar pr-1">
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-xs font-bold text-slate-400 uppercase">動態載重 (Dynamic Load)</div>
+                    <select
+                        value={transient.loadType}
+                        onChange={e => update({ loadType: e.target.value as DynamicLoadType })}
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+                    >
+                        {DYNAMIC_LOAD_TYPES.map(([type, label]) => <option key={type} value={type}>{label}</option>)}
+                    </select>
+                    <div className="grid grid-cols-2 gap-2">
+                        {transient.loadType !== 'series' && (
+                            <div className="space-y-1">
+                                <label className="text-[10px] text-slate-400">F₀ (N, 向下)</label>
+                                <input
+                                    type="number" step={1000} value={transient.amplitude}
+                                    onChange={e => update({ amplitude: Number(e.target.value) })}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+                                />
+                            </div>
+                        )}
+                        {numberField('位置 x (m)', transient.x, x => update({ x: Math.min(L, x) }), 0.1)}
+                        {transient.loadType === 'harmonic' && numberField('頻率 f (Hz)', transient.frequency, frequency => update({ frequency }), 0.5)}
+                        {transient.loadType === 'halfSine' && numberField('脈衝時間 t_d (s)', transient.pulseDuration, pulseDuration => update({ pulseDuration: Math.max(1e-4, pulseDuration) }), 0.005)}
+                    </div>
+                    {transient.loadType === 'series' && (
+                        <div className="space-y-1">
+                            <label className="text-[10px] text-slate-400">時間序列 (t [s], F [N])，每行一筆</label>
+                            <textarea
+                                value={seriesText}
+                                onChange={e => applySeries(e.target.value)}
+                                rows={5}
+                                placeholder={'t,F\n0,0\n0.05,20000\n0.1,0'}
+                                className={`w-full bg-slate-900 border rounded px-2 py-1 text-xs font-mono ${seriesError ? 'border-red-500' : 'border-slate-600'}`}
+                            />
+                            <div className="flex justify-between items-center">
+                                <input
+                                    type="file" accept=".csv,.txt"
+                                    onChange={e => loadCsvFile(e.target.files?.[0])}
+                                    className="text-[10px] text-slate-400 file:mr-2 file:px-2 file:py-0.5 file:rounded file:border-0 file:bg-slate-700 file:text-slate-300"
+                                />
+                                <span className="text-[10px] text-slate-500">{transient.series.length} 筆</span>
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-xs font-bold text-slate-400 uppercase">分析設定 (Integration)</div>
+                    <div className="grid grid-cols-3 gap-2">
+                        {numberField('阻尼比 ζ (%)', +(transient.dampingRatio * 100).toFixed(3), z => update({ dampingRatio: Math.min(100, z) / 100 }), 0.5)}
+                        {numberField('時長 (s)', transient.duration, duration => update({ duration: Math.max(0.01, duration) }), 0.1)}
+                        {numberField('Δt (s)', transient.timeStep, timeStep => update({ timeStep: Math.max(1e-5, timeStep) }), 0.0005)}
+                    </div>
+                    {result.isStable && result.dt > transient.timeStep * 1.001 && (
+                        <div className="text-[10px] text-amber-400">步數上限，實際 Δt = {result.dt.toExponential(2)} s</div>
+                    )}
+                    {result.f1 > 0 && result.dt > 1 / result.f1 / 20 && (
+                        <div className="text-[10px] text-amber-400">Δt 大於 T₁/20，建議縮小時間步長</div>
+                    )}
+                </div>
+
+                <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                    <div className="text-xs font-bold text-slate-400 uppercase">輸出測站 (Stations)</div>
+                    {transient.stations.map((x, i) => (
+                        <div key={i} className="flex gap-2 items-center">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: STATION_COLORS[i % STATION_COLORS.length] }}></span>
+                            <input
+                                type="number" min={0} max={L} step={0.1} value={x}
+                                onChange={e => updateStation(i, Number(e.target.value))}
+                                className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs"
+                            />
+                            <span className="text-[10px] text-slate-500">m</span>
+                            <button onClick={() => removeStation(i)} className="px-1 text-slate-500 hover:text-red-400">✕</button>
+                        </div>
+                    ))}
+                    <button onClick={addStation} className="w-full text-[10px] bg-slate-700 hover:bg-slate-600 text-slate-300 py-1 rounded transition-colors">
+                        + 新增測站
+                    </button>
+                </div>
+
+                {result.isStable && (
+                    <div className="bg-slate-800 p-3 rounded-lg border border-slate-700 space-y-2">
+                        <div className="text-xs font-bold text-slate-400 uppercase">結果 (Results)</div>
+                        <div className="text-[10px] font-mono text-slate-400 space-y-0.5">
+                            <div className="flex justify-between"><span>f₁</span><span>{result.f1.toFixed(2)} Hz</span></div>
+                            <div className="flex justify-between"><span>Rayleigh α / β</span><span>{result.rayleigh.alpha.toFixed(3)} / {result.rayleigh.beta.toExponential(2)}</span></div>
+                        </div>
+                        <div className="bg-indigo-900/20 border border-indigo-700/50 rounded p-2 text-xs font-mono space-y-1">
+                            <div className="flex justify-between">
+                                <span className="text-indigo-300">動力放大係數 DAF</span>
+                                <span className="text-white font-bold">{result.daf.toFixed(3)}</span>
+                            </div>
+                            {result.theoreticalDAF !== null && (
+                                <div className="flex justify-between text-slate-400 text-[10px]">
+                                    <span>單自由度理論值{transient.loadType === 'harmonic' ? ' (穩態)' : ''}</span>
+                                    <span>{result.theoreticalDAF.toFixed(3)}</span>
+                                </div>
+                            )}
+                        </div>
+                        <table className="w-full text-[10px] font-mono text-slate-300">
+                            <thead>
+                                <tr className="text-slate-500">
+                                    <th className="text-left font-normal">x (m)</th>
+                                    <th className="text-right font-normal">v_st (mm)</th>
+                                    <th className="text-right font-normal">|v|max</th>
+                                    <th className="text-right font-normal">|σ|max (MPa)</th>
+                                    <th className="text-right font-normal">DAF</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.stations.map((s, i) => (
+                                    <tr key={i} className="border-t border-slate-700/50">
+                                        <td className="py-1" style={{ color: STATION_COLORS[i % STATION_COLORS.length] }}>{s.x.toFixed(2)}</td>
+                                        <td className="py-1 text-right">{(s.vStatic * 1e3).toFixed(3)}</td>
+                                        <td className="py-1 text-right">{(s.vPeak * 1e3).toFixed(3)}</td>
+                                        <td className="py-1 text-right">{(s.sigmaPeak / 1e6).toFixed(2)}</td>
+                                        <td className="py-1 text-right text-white">{s.daf.toFixed(3)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="text-[10px] text-slate-500">
+                            DAF = 動態最大撓度 / 峰值載重靜態撓度；整體值取靜態撓度最大的測站。
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TransientView;
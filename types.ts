@@ -1,7 +1,23 @@
-export type BeamType = 'cantilever' | 'simplySupported' | 'overhanging';
-export type SectionType = 'rectangular' | 'circular' | 'ibeam';
+export type BeamType = 'cantilever' | 'simplySupported' | 'overhanging' | 'fixedFixed' | 'proppedCantilever' | 'continuous';
+export type SectionType = 'rectangular' | 'circular' | 'ibeam' | 'tube' | 'box' | 'tee' | 'channel' | 'angle' | 'custom';
 
-export type LoadType = 'P' | 'U' | 'T' | 'M';
+export interface SectionPoint {
+    x: number;
+    y: number;
+}
+
+// Closed outline of a custom section (m); holes are subtracted from the outlines
+export interface SectionPolygon {
+    id: string;
+    points: SectionPoint[];
+    isHole: boolean;
+}
+
+// P point, U uniform, T triangular, M moment, N axial point load (val > 0 compression, acting towards -x)
+export type LoadType = 'P' | 'U' | 'T' | 'M' | 'N';
+
+// Load case category: dead, live, wind, snow
+export type LoadCase = 'D' | 'L' | 'W' | 'S';
 
 export interface LoadDefinition {
     id: string;
@@ -11,6 +27,44 @@ export interface LoadDefinition {
     x1?: number;
     x2?: number;
     peak?: 'left' | 'right';
+    loadCase?: LoadCase; // Untyped loads count as live load
+}
+
+// Factored combination, e.g. 1.2D + 1.6L (missing cases have factor 0)
+export interface LoadCombination {
+    id: string;
+    name: string;
+    factors: Partial<Record<LoadCase, number>>;
+}
+
+// Axle of a moving load group: offset behind the lead axle (m), downward load (N)
+export interface AxleLoad {
+    offset: number;
+    load: number;
+}
+
+// Time variation of the dynamic load: F0·sin(2πft), suddenly applied F0, half-sine pulse or a (t, F) series
+export type DynamicLoadType = 'harmonic' | 'step' | 'halfSine' | 'series';
+
+export interface TransientParams {
+    loadType: DynamicLoadType;
+    amplitude: number;          // F0 (N, downward positive)
+    x: number;                  // Load position (m)
+    frequency: number;          // Hz (harmonic)
+    pulseDuration: number;      // s (half-sine)
+    series: [number, number][]; // (t in s, F in N) pairs of the 'series' load
+    dampingRatio: number;       // ζ of the Rayleigh damping at modes 1 and 2
+    duration: number;           // s
+    timeStep: number;           // s
+    stations: number[];         // Output stations (m)
+    animate: boolean;           // Plays the response in the stress view
+}
+
+export type SupportType = 'pin' | 'roller' | 'fixed';
+
+export interface SupportDefinition {
+    type: SupportType;
+    x: number;
 }
 
 // --- Bearing Types ---
@@ -25,28 +79,54 @@ export interface BearingParams {
 
 export type SimMode = 'beam' | 'bearing';
 
+// 'beamTheory': 1D beam solution mapped onto the mesh, 'planeStress': 2D Q4 finite elements
+export type AnalysisModel = 'beamTheory' | 'planeStress';
+
+// 'timoshenko' adds shear deformation (κ·G·A) to the beam solution
+export type BeamFormulation = 'eulerBernoulli' | 'timoshenko';
+
 export interface SimulationParams {
     // --- Common / Beam ---
     length: number;      
     height: number;      
     force: number;       
     youngsModulus: number; 
+    poissonsRatio: number; // ν (plane-stress model)
     yieldStrength: number; 
+    density: number; // kg/m³
+    materialId: string | null; // Material database entry (utils/materials), null for user values
     meshDensityX: number; 
     meshDensityY: number; 
     deformationScale: number; 
+    analysisModel: AnalysisModel;
+    beamFormulation: BeamFormulation;
     beamType: BeamType;   
     loadPosition: number; 
     
     supportA: number; 
     supportB: number; 
+    supports: SupportDefinition[]; // User-defined supports (beamType 'continuous')
     customLoads: LoadDefinition[]; 
+    includeSelfWeight: boolean; // Adds w = ρ·g·A over the whole span
+    loadCombinations: LoadCombination[];
+    activeCombination: string | null; // Combination applied to the loads, null for unfactored loads
+    influenceStation: number; // Station x0 of the V / M influence lines (m)
+    axleLoads: AxleLoad[]; // Moving axle group
+    modeCount: number; // Natural modes computed by the modal analysis
+    vibrationLimit: number; // Minimum fundamental frequency for serviceability (Hz)
+    animatedMode: number | null; // Index of the mode shape animated in the stress view
+    transient: TransientParams; // Time-history analysis under a dynamic load
 
     sectionType: SectionType;
     sectionWidth: number; 
     flangeWidth: number;  
     flangeThickness: number; 
     webThickness: number; 
+    wallThickness: number; // Tube and box walls
+    customSection: SectionPolygon[]; // Outlines of the 'custom' section type
+    steelShape: string | null; // Catalog designation (utils/steelShapes), null for user dimensions
+    lateralBraces: number[]; // Lateral-torsional brace positions (m); the supports are braced as well
+    unbracedLength: number | null; // Overrides the unbraced length Lb of every segment (m), null = brace spacing
 
     // --- Bearing Specific ---
     mode: SimMode; // Discriminator
@@ -65,9 +145,17 @@ export interface NodePoint {
     y: number;       
     dx: number;      
     dy: number;      
-    stress: number;  
+    stress: number;   // σx (Pa)
+    sigmaY: number;   // Pa (zero in beam theory)
+    tauXY: number;    // Pa, transverse shear
+    vonMises: number; // Pa
+    sigma1: number;   // Principal stresses (Pa), σ1 ≥ σ2
+    sigma2: number;
 }
 
+// Quantity used to colour the stress field
+export type StressComponent = 'sigmaX' | 'tauXY' | 'vonMises' | 'sigma1' | 'sigma2';
+
 export interface MeshElement {
     id: string;
     nodes: [NodePoint, NodePoint, NodePoint, NodePoint]; 
@@ -0,0 +1,86 @@
+import { SimulationParams, LoadDefinition, SupportDefinition } from '../types';
+import { calculateSectionProperties } from './physics';
+import { findCombination, applyCombination } from './loadCombinations';
+
+export const GRAVITY = 9.81; // m/s²
+
+// Id of the generated self-weight load (never part of customLoads)
+export const SELF_WEIGHT_ID = 'selfWeight';
+
+/**
+ * Self-weight w = ρ·g·A as a uniform load over the whole beam, or null when it is switched off.
+ */
+export const getSelfWeightLoad = (params: SimulationParams): LoadDefinition | null => {
+    if (!params.includeSelfWeight) return null;
+    const w = calculateSectionProperties(params).massPerLength * GRAVITY;
+    return w > 0 ? { id: SELF_WEIGHT_ID, type: 'U', val: w, x1: 0, x2: params.length, loadCase: 'D' } : null;
+};
+
+/**
+ * Returns the unfactored loads acting on the beam.
+ * Falls back to the single base load (force @ loadPosition) when no custom loads are defined;
+ * the self-weight is appended when enabled.
+ * Sign convention: val > 0 acts downward (P/U/T) or counter-clockwise (M).
+ */
+export const getServiceLoads = (params: SimulationParams): LoadDefinition[] => {
+    const selfWeight = getSelfWeightLoad(params);
+    const loads: LoadDefinition[] = params.customLoads && params.customLoads.length > 0
+        ? params.customLoads
+        // params.force is signed with y-up (negative = downward)
+        : [{ id: 'default', type: 'P', val: -params.force, x: params.loadPosition }];
+    return selfWeight ? [...loads, selfWeight] : loads;
+};
+
+/**
+ * Returns the loads used by the analyses: the service loads scaled by the active combination.
+ */
+export const getActiveLoads = (params: SimulationParams): LoadDefinition[] => {
+    const loads = getServiceLoads(params);
+    const combination = findCombination(params);
+    return combination ? applyCombination(loads, combination) : loads;
+};
+
+/**
+ * Returns the support layout implied by the beam type.
+ */
+export const getSupports = (params: SimulationParams): SupportDefinition[] => {
+    const { beamType, length: L } = params;
+    // Supports are kept on the beam; coincident supports leave the beam unstable
+    const clamp = (x: number) => Math.max(0, Math.min(L, x));
+
+    if (beamType === 'cantilever') {
+        return [{ type: 'fixed', x: 0 }];
+    } else if (beamType === 'overhanging') {
+        return [
+            { type: 'pin', x: clamp(params.supportA) },
+            { type: 'roller', x: clamp(params.supportB) }
+        ];
+    } else if (beamType === 'fixedFixed') {
+        return [
+            { type: 'fixed', x: 0 },
+            { type: 'fixed', x: L }
+        ];
+    } else if (beamType === 'proppedCantilever') {
+        return [
+            { type: 'fixed', x: 0 },
+            { type: 'roller', x: L }
+        ];
+    } else if (beamType === 'continuous') {
+        return (params.supports || [])
+            .map(s => ({ ...s, x: clamp(s.x) }))
+            .sort((a, b) => a.x - b.x);
+    }
+    return [
+        { type: 'pin', x: 0 },
+        { type: 'roller', x: L }
+    ];
+};
+
+/**
+ * Degree of static indeterminacy for transverse loading
+ * (pin/roller: 1 reaction, fixed: 2 reactions; 2 equilibrium equations).
+ */
+export const getStaticIndeterminacy = (supports: SupportDefinition[]) => {
+    const unknowns = supports.reduce((n, s) => n + (s.type === 'fixed' ? 2 : 1), 0);
+    return unknowns - 2;
+};
@@ -0,0 +1,408 @@
+import { LoadDefinition, SupportDefinition } from '../types';
+import { createMatrix, solveLinearSystem } from './linearAlgebra';
+
+/**
+ * Input for the stiffness solver (units: m, N, Pa).
+ */
+export interface BeamModel {
+    length: number;
+    EI: number;
+    GAs?: number; // Shear rigidity κ·G·A (Timoshenko); omitted for Euler-Bernoulli
+    supports: SupportDefinition[];
+    loads: LoadDefinition[];
+    stations?: number[]; // Extra output stations (e.g. mesh columns)
+    secondOrder?: boolean; // P-Δ: geometric stiffness of the axial forces, moments on the deflected axis
+}
+
+export interface SupportReaction {
+    x: number;
+    type: SupportDefinition['type'];
+    Fy: number; // Upward positive (N)
+    Mz: number; // Counter-clockwise positive (N·m)
+    Fx: number; // Axial, +x positive (N); rollers carry none
+}
+
+export interface BeamSolution {
+    xs: number[];          // Node positions
+    deflections: number[]; // v (m), upward positive
+    slopes: number[];      // θ = dv/dx (rad)
+    moments: number[];     // M (N·m), sagging positive
+    shears: number[];      // V (N), V = dM/dx
+    axialForces: number[]; // N (N), tension positive
+    reactions: SupportReaction[];
+    loads: LoadDefinition[]; // Loads clipped to the span
+    secondOrder: boolean;
+    isStable: boolean;
+}
+
+const NODE_TOL = 1e-9;
+
+const clampX = (x: number, L: number) => Math.max(0, Math.min(L, x));
+
+/**
+ * Intensity (downward, N/m) of distributed loads at their start and end.
+ */
+const getLoadEnds = (l: LoadDefinition) => {
+    if (l.type === 'U') return { qa: l.val, qb: l.val };
+    return l.peak === 'right' ? { qa: 0, qb: l.val } : { qa: l.val, qb: 0 };
+};
+
+const isDistributed = (l: LoadDefinition) =>
+    (l.type === 'U' || l.type === 'T') && l.x1 !== undefined && l.x2 !== undefined && l.x2 > l.x1;
+
+/**
+ * Downward intensity at both ends of an element [xa, xb] (sum of all U/T loads covering it).
+ */
+const elementIntensity = (xa: number, xb: number, loads: LoadDefinition[]) => {
+    let q1 = 0;
+    let q2 = 0;
+    loads.forEach(l => {
+        if (!isDistributed(l)) return;
+        const x1 = l.x1!, x2 = l.x2!;
+        if (x1 > xa + NODE_TOL || x2 < xb - NODE_TOL) return;
+        const { qa, qb } = getLoadEnds(l);
+        q1 += qa + (qb - qa) * (xa - x1) / (x2 - x1);
+        q2 += qa + (qb - qa) * (xb - x1) / (x2 - x1);
+    });
+    return { q1, q2 };
+};
+
+// Applied axial force in +x (N loads act towards -x for positive values)
+const axialLoadForce = (l: LoadDefinition) => -l.val;
+
+/**
+ * Axial support reactions (+x). Pins and fixed supports restrain x, rollers do not. A load between
+ * two restraints is shared in proportion to its distance from the other one (uniform EA), outside
+ * them it goes to the nearest one. Null when axial loads act on a beam without axial restraint.
+ */
+const solveAxialReactions = (supports: SupportDefinition[], loads: LoadDefinition[], L: number): number[] | null => {
+    const Fx = supports.map(() => 0);
+    const restraints = supports
+        .map((s, i) => ({ x: clampX(s.x, L), i, type: s.type }))
+        .filter(r => r.type !== 'roller')
+        .sort((a, b) => a.x - b.x);
+
+    for (const l of loads) {
+        if (l.type !== 'N' || l.x === undefined || l.val === 0) continue;
+        if (restraints.length === 0) return null;
+        const H = axialLoadForce(l);
+        const k = restraints.findIndex(r => r.x >= l.x! - NODE_TOL);
+        if (k <= 0) {
+            Fx[restraints[k === 0 ? 0 : restraints.length - 1].i] -= H;
+            continue;
+        }
+        const a = restraints[k - 1];
+        const b = restraints[k];
+        const span = b.x - a.x;
+        Fx[a.i] -= H * (b.x - l.x) / span;
+        Fx[b.i] -= H * (l.x - a.x) / span;
+    }
+    return Fx;
+};
+
+/**
+ * Shear, moment and axial force (tension positive) at x by statics of the free body left of x.
+ * side 'right' includes concentrated actions located exactly at x. With the deflected shape v(x)
+ * the axial forces add their P-Δ moment about the deflected axis.
+ */
+export const internalForcesAt = (
+    x: number,
+    loads: LoadDefinition[],
+    reactions: SupportReaction[],
+    side: 'left' | 'right' = 'right',
+    deflection?: (x: number) => number
+) => {
+    const included = (xi: number) => side === 'right' ? xi <= x + NODE_TOL : xi < x - NODE_TOL;
+    const vx = deflection ? deflection(x) : 0;
+    let V = 0;
+    let M = 0;
+    let N = 0;
+
+    reactions.forEach(r => {
+        if (!included(r.x)) return;
+        V += r.Fy;
+        M += r.Fy * (x - r.x) - r.Mz;
+        N -= r.Fx;
+        if (deflection) M += (deflection(r.x) - vx) * r.Fx;
+    });
+
+    loads.forEach(l => {
+        if (l.type === 'N' && l.x !== undefined && included(l.x)) {
+            const H = axialLoadForce(l);
+            N -= H;
+            if (deflection) M += (deflection(l.x) - vx) * H;
+        } else if (l.type === 'P' && l.x !== undefined && included(l.x)) {
+            V -= l.val;
+            M -= l.val * (x - l.x);
+        } else if (l.type === 'M' && l.x !== undefined && included(l.x)) {
+            M -= l.val;
+        } else if (isDistributed(l) && l.x1! < x) {
+            // Linear load piece from x1 to min(x, x2)
+            const x1 = l.x1!;
+            const { qa, qb } = getLoadEnds(l);
+            const k = (qb - qa) / (l.x2! - x1);
+            const u = Math.min(x, l.x2!) - x1;
+            const X = x - x1;
+            V -= qa * u + k * u * u / 2;
+            M -= qa * X * u - qa * u * u / 2 + k * X * u * u / 2 - k * u * u * u / 3;
+        }
+    });
+
+    return { V, M, N };
+};
+
+/**
+ * Stiffness matrix of a 2-node beam element (DOFs: v1, θ1, v2, θ2).
+ * Φ = 12·EI/(κGA·h²) adds shear deformation (Timoshenko); Φ = 0 is Euler-Bernoulli.
+ */
+export const elementStiffness = (EI: number, h: number, phi: number = 0): number[][] => {
+    const k = EI / (h * h * h * (1 + phi));
+    return [
+        [12 * k, 6 * h * k, -12 * k, 6 * h * k],
+        [6 * h * k, (4 + phi) * h * h * k, -6 * h * k, (2 - phi) * h * h * k],
+        [-12 * k, -6 * h * k, 12 * k, -6 * h * k],
+        [6 * h * k, (2 - phi) * h * h * k, -6 * h * k, (4 + phi) * h * h * k]
+    ];
+};
+
+/**
+ * Consistent geometric stiffness of a beam element for a unit axial tension (DOFs: v1, θ1, v2, θ2).
+ * Multiplied by N and added to the stiffness it softens the element under compression.
+ */
+export const elementGeometricStiffness = (h: number): number[][] => {
+    const k = 1 / (30 * h);
+    return [
+        [36 * k, 3 * h * k, -36 * k, 3 * h * k],
+        [3 * h * k, 4 * h * h * k, -3 * h * k, -h * h * k],
+        [-36 * k, -3 * h * k, 36 * k, -3 * h * k],
+        [3 * h * k, -h * h * k, -3 * h * k, 4 * h * h * k]
+    ];
+};
+
+/**
+ * Equivalent nodal loads (y-up) for a linearly varying downward load q1 → q2,
+ * i.e. minus the fixed-end reactions. The right-end reactions restore v = θ = 0
+ * at the tip of the element loaded as a cantilever, so shear flexibility 1/κGA is exact too.
+ */
+const elementLoadVector = (q1: number, q2: number, h: number, EI: number, GAs: number = Infinity): number[] => {
+    // Load moments about the left end: Sn = ∫ q(s)·sⁿ ds
+    const S0 = h * (q1 + q2) / 2;
+    const S1 = h * h * (q1 + 2 * q2) / 6;
+    const S2 = h * h * h * (q1 + 3 * q2) / 12;
+    const S3 = h * h * h * h * (q1 + 4 * q2) / 20;
+    const shear = Number.isFinite(GAs) && GAs > 0 ? 1 / GAs : 0;
+
+    // Cantilever (fixed at the left end) tip deflection and rotation under the load
+    const vTip = -(h * S2 / 2 - S3 / 6) / EI - S1 * shear;
+    const thetaTip = -S2 / (2 * EI);
+
+    // Tip flexibility for a force R and a moment C at the right end
+    const f11 = h * h * h / (3 * EI) + h * shear;
+    const f12 = h * h / (2 * EI);
+    const f22 = h / EI;
+    const det = f11 * f22 - f12 * f12;
+    const R = (-vTip * f22 + thetaTip * f12) / det;
+    const C = (-thetaTip * f11 + vTip * f12) / det;
+
+    // Left-end reactions from equilibrium
+    const Ra = S0 - R;
+    const Ma = S1 - R * h - C;
+    return [-Ra, -Ma, -R, -C];
+};
+
+/**
+ * Builds the node list: ends, supports, load points and requested stations.
+ */
+const buildNodes = (model: BeamModel): number[] => {
+    const L = model.length;
+    const pts: number[] = [0, L];
+    model.supports.forEach(s => pts.push(clampX(s.x, L)));
+    model.loads.forEach(l => {
+        if (l.type === 'P' || l.type === 'M' || l.type === 'N') {
+            if (l.x !== undefined) pts.push(clampX(l.x, L));
+        } else if (l.x1 !== undefined && l.x2 !== undefined) {
+            pts.push(clampX(l.x1, L));
+            pts.push(clampX(l.x2, L));
+        }
+    });
+    (model.stations || []).forEach(x => pts.push(clampX(x, L)));
+
+    pts.sort((a, b) => a - b);
+    const nodes: number[] = [];
+    pts.forEach(x => {
+        if (nodes.length === 0 || x - nodes[nodes.length - 1] > NODE_TOL) nodes.push(x);
+    });
+    return nodes;
+};
+
+/**
+ * Cubic Hermite interpolation of the nodal v/θ inside the element containing x (bending shape only).
+ */
+const interpolateDeflection = (xs: number[], vs: number[], ts: number[], x: number) => {
+    const n = xs.length;
+    let lo = 0, hi = n - 1;
+    while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (xs[mid] <= x) lo = mid; else hi = mid;
+    }
+    if (n < 2 || Math.abs(xs[lo] - x) < NODE_TOL) return { v: vs[lo] ?? 0, theta: ts[lo] ?? 0 };
+    if (Math.abs(xs[hi] - x) < NODE_TOL) return { v: vs[hi], theta: ts[hi] };
+
+    const h = xs[hi] - xs[lo];
+    const s = Math.max(0, Math.min(1, (x - xs[lo]) / h));
+    const N1 = 1 - 3 * s * s + 2 * s * s * s;
+    const N2 = h * (s - 2 * s * s + s * s * s);
+    const N3 = 3 * s * s - 2 * s * s * s;
+    const N4 = h * (s * s * s - s * s);
+    const dN1 = (-6 * s + 6 * s * s) / h;
+    const dN2 = 1 - 4 * s + 3 * s * s;
+    const dN3 = (6 * s - 6 * s * s) / h;
+    const dN4 = 3 * s * s - 2 * s;
+    return {
+        v: N1 * vs[lo] + N2 * ts[lo] + N3 * vs[hi] + N4 * ts[hi],
+        theta: dN1 * vs[lo] + dN2 * ts[lo] + dN3 * vs[hi] + dN4 * ts[hi]
+    };
+};
+
+/**
+ * General beam solver (Euler-Bernoulli or Timoshenko) using the direct stiffness method.
+ * Nodes are placed at every load/support point, so nodal results are exact.
+ * With secondOrder the axial forces enter through the geometric stiffness (P-Δ).
+ */
+export const solveBeamStiffness = (model: BeamModel): BeamSolution => {
+    const { length: L, EI, supports } = model;
+    const GAs = model.GAs ?? Infinity;
+
+    // Loads are clipped to the beam span
+    const loads = model.loads.map(l => ({
+        ...l,
+        x: l.x !== undefined ? clampX(l.x, L) : undefined,
+        x1: l.x1 !== undefined ? clampX(l.x1, L) : undefined,
+        x2: l.x2 !== undefined ? clampX(l.x2, L) : undefined
+    }));
+
+    const xs = buildNodes({ ...model, loads });
+    const nNodes = xs.length;
+
+    // Axial forces are statically resolved first: they set the geometric stiffness
+    const Fx = solveAxialReactions(supports, loads, L);
+    const axialReactions = supports.map((s, k) => ({ x: clampX(s.x, L), type: s.type, Fy: 0, Mz: 0, Fx: Fx?.[k] ?? 0 }));
+    const secondOrder = !!model.secondOrder && Fx !== null;
+    const nDof = nNodes * 2;
+    const findNode = (x: number) => {
+        let best = 0;
+        xs.forEach((xn, i) => { if (Math.abs(xn - x) < Math.abs(xs[best] - x)) best = i; });
+        return best;
+    };
+
+    // 1. Assemble global stiffness and load vector
+    const K = createMatrix(nDof, nDof);
+    const F = new Array(nDof).fill(0);
+
+    for (let e = 0; e < nNodes - 1; e++) {
+        const h = xs[e + 1] - xs[e];
+        const phi = Number.isFinite(GAs) && GAs > 0 ? 12 * EI / (GAs * h * h) : 0;
+        const ke = elementStiffness(EI, h, phi);
+        const dofs = [2 * e, 2 * e + 1, 2 * e + 2, 2 * e + 3];
+        if (secondOrder) {
+            const { N } = internalForcesAt(xs[e] + h / 2, loads, axialReactions);
+            const kg = elementGeometricStiffness(h);
+            for (let a = 0; a < 4; a++) for (let b = 0; b < 4; b++) ke[a][b] += N * kg[a][b];
+        }
+
+        // Distributed loads are linear within each element (x1/x2 are nodes)
+        const { q1, q2 } = elementIntensity(xs[e], xs[e + 1], loads);
+        const fe = elementLoadVector(q1, q2, h, EI, GAs);
+
+        for (let a = 0; a < 4; a++) {
+            F[dofs[a]] += fe[a];
+            for (let b = 0; b < 4; b++) K[dofs[a]][dofs[b]] += ke[a][b];
+        }
+    }
+
+    loads.forEach(l => {
+        if (l.type === 'P' && l.x !== undefined) F[2 * findNode(l.x)] -= l.val;
+        else if (l.type === 'M' && l.x !== undefined) F[2 * findNode(l.x) + 1] += l.val;
+    });
+
+    // 2. Apply support constraints
+    const fixed = new Set<number>();
+    supports.forEach(s => {
+        const n = findNode(clampX(s.x, L));
+        fixed.add(2 * n);
+        if (s.type === 'fixed') fixed.add(2 * n + 1);
+    });
+    const free = [...Array(nDof).keys()].filter(d => !fixed.has(d));
+
+    const Kff = free.map(i => free.map(j => K[i][j]));
+    const Ff = free.map(i => F[i]);
+    const df = Fx ? solveLinearSystem(Kff, Ff) : null;
+
+    const d = new Array(nDof).fill(0);
+    if (df) free.forEach((dof, i) => { d[dof] = df[i]; });
+
+    // 3. Support reactions R = K·d - F
+    const reactions: SupportReaction[] = supports.map((s, k) => {
+        const n = findNode(clampX(s.x, L));
+        const react = (dof: number) => {
+            if (!df) return 0;
+            let r = -F[dof];
+            for (let j = 0; j < nDof; j++) r += K[dof][j] * d[j];
+            return r;
+        };
+        return {
+            x: xs[n],
+            type: s.type,
+            Fy: react(2 * n),
+            Mz: s.type === 'fixed' ? react(2 * n + 1) : 0,
+            Fx: df ? axialReactions[k].Fx : 0
+        };
+    });
+
+    // 4. Internal forces by statics (exact at every node; second order on the deflected axis)
+    const deflections = xs.map((_, i) => d[2 * i]);
+    const slopes = xs.map((_, i) => d[2 * i + 1]);
+    const deflection = secondOrder ? (x: number) => interpolateDeflection(xs, deflections, slopes, x).v : undefined;
+    const moments: number[] = [];
+    const shears: number[] = [];
+    const axialForces: number[] = [];
+    xs.forEach((x, i) => {
+        const side = i === nNodes - 1 ? 'left' : 'right';
+        const { V, M, N } = df ? internalForcesAt(x, loads, reactions, side, deflection) : { V: 0, M: 0, N: 0 };
+        shears.push(V);
+        moments.push(M);
+        axialForces.push(N);
+    });
+
+    return {
+        xs,
+        deflections,
+        slopes,
+        moments,
+        shears,
+        axialForces,
+        reactions,
+        loads,
+        secondOrder,
+        isStable: df !== null
+    };
+};
+
+/**
+ * Samples the solution at x. Nodal values are returned directly,
+ * otherwise v/θ use cubic Hermite interpolation inside the element (bending shape only)
+ * and V/M/N are recovered exactly from statics.
+ */
+export const sampleBeamSolution = (solution: BeamSolution, x: number) => {
+    const { xs, deflections: vs, slopes: ts, moments, shears, axialForces, reactions, loads } = solution;
+    const n = xs.length;
+    if (n === 0) return { v: 0, theta: 0, M: 0, V: 0, N: 0 };
+
+    const node = xs.findIndex(xn => Math.abs(xn - x) < NODE_TOL);
+    if (node >= 0) return { v: vs[node], theta: ts[node], M: moments[node], V: shears[node], N: axialForces[node] };
+
+    const deflection = solution.secondOrder ? (xi: number) => interpolateDeflection(xs, vs, ts, xi).v : undefined;
+    const { V, M, N } = solution.isStable ? internalForcesAt(x, loads, reactions, 'right', deflection) : { V: 0, M: 0, N: 0 };
+
+    return { ...interpolateDeflection(xs, vs, ts, x), M, V, N };
+};
@@ -0,0 +1,135 @@
+import { SimulationParams, AxleLoad, LoadDefinition } from '../types';
+import { getSupports } from './beamModel';
+import { BeamModel, SupportReaction, solveBeamStiffness, internalForcesAt } from './beamSolver';
+import { calculateSectionProperties, getShearRigidity } from './physics';
+
+/**
+ * Influence lines (unit load moving across the span) and moving axle-group envelopes.
+ * Each load position is solved with the same stiffness model as the diagrams, so
+ * indeterminate beams are handled too. Sign convention as the diagrams: R up, V = dM/dx, M sagging.
+ */
+
+// Stiffness model without loads (no extra stations: only supports and load points are nodes)
+const getUnloadedModel = (params: SimulationParams): Omit<BeamModel, 'loads'> => ({
+    length: params.length,
+    EI: params.youngsModulus * calculateSectionProperties(params).I,
+    GAs: getShearRigidity(params),
+    supports: getSupports(params)
+});
+
+export interface InfluenceLines {
+    x0: number;
+    xs: number[]; // Unit load positions ξ (x0 appears twice: V jumps there)
+    reactions: { x: number; type: SupportReaction['type']; values: number[] }[];
+    V: number[];  // V(x0) right of the station
+    M: number[];
+    isStable: boolean;
+}
+
+/**
+ * Influence lines of every support reaction and of V and M at station x0 for a unit downward load.
+ */
+export const calculateInfluenceLines = (params: SimulationParams, x0: number, n: number = 200): InfluenceLines => {
+    const L = params.length;
+    const station = Math.max(0, Math.min(L, x0));
+    const model = getUnloadedModel(params);
+    const grid = Array.from({ length: n + 1 }, (_, i) => i * L / n).filter(x => Math.abs(x - station) > 1e-9);
+    const xs = [...grid, station, station].sort((a, b) => a - b);
+    const jumpAt = xs.indexOf(station) + 1; // Second sample at the station: load just right of the cut
+
+    const reactions = model.supports.map(s => ({ x: s.x, type: s.type, values: [] as number[] }));
+    const V: number[] = [];
+    const M: number[] = [];
+    let isStable = true;
+
+    xs.forEach((xi, i) => {
+        const unit: LoadDefinition = { id: 'unit', type: 'P', val: 1, x: xi };
+        const solution = solveBeamStiffness({ ...model, loads: [unit] });
+        isStable = isStable && solution.isStable;
+        solution.reactions.forEach((r, k) => reactions[k]?.values.push(r.Fy));
+        const forces = internalForcesAt(station, solution.loads, solution.reactions, i === jumpAt ? 'left' : 'right');
+        V.push(forces.V);
+        M.push(forces.M);
+    });
+
+    return { x0: station, xs, reactions, V, M, isStable };
+};
+
+export interface Extreme {
+    value: number;
+    lead: number; // Lead axle position (m) that produces it
+}
+
+export interface MovingLoadEnvelope {
+    xs: number[];
+    Vmax: number[];
+    Vmin: number[];
+    Mmax: number[];
+    Mmin: number[];
+    reactions: { x: number; max: Extreme; min: Extreme }[];
+    station: { x0: number; Vmax: Extreme; Vmin: Extreme; Mmax: Extreme; Mmin: Extreme };
+}
+
+/**
+ * Envelope of V, M and the reactions for an axle group crossing the beam from x = 0 to x = L.
+ * Lead positions are stepped at L/n and also placed so each axle sits on the station and on every support.
+ */
+export const calculateMovingLoadEnvelope = (
+    params: SimulationParams,
+    axles: AxleLoad[],
+    x0: number,
+    n: number = 200
+): MovingLoadEnvelope => {
+    const L = params.length;
+    const station = Math.max(0, Math.min(L, x0));
+    const model = getUnloadedModel(params);
+    const groupLength = Math.max(0, ...axles.map(a => a.offset));
+
+    const xs = Array.from({ length: n + 1 }, (_, i) => i * L / n);
+    const Vmax = xs.map(() => 0), Vmin = xs.map(() => 0);
+    const Mmax = xs.map(() => 0), Mmin = xs.map(() => 0);
+    const none = (): Extreme => ({ value: 0, lead: 0 });
+    const reactions = model.supports.map(s => ({ x: s.x, max: none(), min: none() }));
+    const stationResult = { x0: station, Vmax: none(), Vmin: none(), Mmax: none(), Mmin: none() };
+
+    // Influence lines are linear between the grid points, the station and the supports, so the
+    // extremes occur with an axle on one of them: place every axle on each of these points
+    const keyPoints = [...xs, station, ...model.supports.map(s => s.x)];
+    const leads = [...new Set(axles.flatMap(a => keyPoints.map(x => x + a.offset)))]
+        .filter(p => p >= 0 && p <= L + groupLength)
+        .sort((a, b) => a - b);
+
+    const update = (e: Extreme, value: number, lead: number, isMax: boolean) => {
+        if (isMax ? value > e.value : value < e.value) { e.value = value; e.lead = lead; }
+    };
+
+    leads.forEach(lead => {
+        const loads: LoadDefinition[] = axles
+            .map((a, i) => ({ id: `axle-${i}`, type: 'P' as const, val: a.load, x: lead - a.offset }))
+            .filter(l => l.x >= 0 && l.x <= L);
+        if (loads.length === 0) return;
+        const solution = solveBeamStiffness({ ...model, loads });
+
+        solution.reactions.forEach((r, k) => {
+            if (!reactions[k]) return;
+            update(reactions[k].max, r.Fy, lead, true);
+            update(reactions[k].min, r.Fy, lead, false);
+        });
+
+        // Both sides of each point so shear jumps under the axles are enveloped
+        xs.forEach((x, i) => {
+            (['left', 'right'] as const).forEach(side => {
+                const { V, M } = internalForcesAt(x, solution.loads, solution.reactions, side);
+                Vmax[i] = Math.max(Vmax[i], V); Vmin[i] = Math.min(Vmin[i], V);
+                Mmax[i] = Math.max(Mmax[i], M); Mmin[i] = Math.min(Mmin[i], M);
+            });
+        });
+        (['left', 'right'] as const).forEach(side => {
+            const { V, M } = internalForcesAt(station, solution.loads, solution.reactions, side);
+            update(stationResult.Vmax, V, lead, true); update(stationResult.Vmin, V, lead, false);
+            update(stationResult.Mmax, M, lead, true); update(stationResult.Mmin, M, lead, false);
+        });
+    });
+
+    return { xs, Vmax, Vmin, Mmax, Mmin, reactions, station: stationResult };
+};
@@ -0,0 +1,140 @@
+import { SimulationParams, SectionType } from '../types';
+import { getSupports } from './beamModel';
+import { BeamSolution, internalForcesAt } from './beamSolver';
+import { solveBeam, calculateSectionProperties } from './physics';
+import { getShearModulus } from './materials';
+
+/**
+ * Lateral-torsional buckling of I-beams and channels (AISC 360 F2): elastic Mcr from Iy, J and Cw
+ * for each laterally unbraced segment, with the moment gradient factor Cb from the M(x) diagram.
+ * Loads are assumed to act at the shear centre.
+ */
+
+export const LTB_SECTION_TYPES: SectionType[] = ['ibeam', 'channel'];
+
+const CB_MAX = 3.0;         // Upper limit of Cb (AISC 360-05 F1)
+const NODE_TOL = 1e-9;
+
+export interface LtbSegment {
+    x1: number;
+    x2: number;
+    Lb: number;             // Unbraced length (m)
+    isCantilever: boolean;  // Overhang with a free end: Cb = 1
+    Mmax: number;           // max |M| over the segment (N·m)
+    Cb: number;
+    Mcr: number;            // Elastic critical moment Cb·Mcr0 (N·m)
+    Mn: number;             // LTB-reduced nominal capacity (N·m)
+    utilization: number;    // Mmax / Mn
+}
+
+export interface LtbResult {
+    Mp: number;             // Plastic moment Fy·Zx (N·m)
+    Lp: number;             // Limit of the plastic range (m)
+    Lr: number;             // Limit of the inelastic range (m)
+    segments: LtbSegment[];
+    governing: LtbSegment | null; // Segment with the highest utilization
+    utilization: number;
+}
+
+/**
+ * Elastic critical moment of a uniform-moment segment: (π/Lb)·√(E·Iy·G·J + (π·E/Lb)²·Iy·Cw).
+ * For channels this equals AISC F2-4 with c = (h0/2)·√(Iy/Cw) from F2-8b.
+ */
+const uniformMcr = (Lb: number, E: number, G: number, Iy: number, J: number, Cw: number) =>
+    Lb > 0 ? Math.PI / Lb * Math.sqrt(E * Iy * G * J + Math.pow(Math.PI * E / Lb, 2) * Iy * Cw) : Infinity;
+
+/**
+ * Exact max |M| over [x1, x2]: both sides of every solver node (load points, supports) inside the
+ * segment, plus the zero-shear points between nodes where distributed loads give a moment peak.
+ */
+const segmentMaxMoment = (solution: BeamSolution, x1: number, x2: number) => {
+    const at = (x: number, side: 'left' | 'right') => internalForcesAt(x, solution.loads, solution.reactions, side);
+    const nodes = [x1, ...solution.xs.filter(x => x > x1 + NODE_TOL && x < x2 - NODE_TOL), x2];
+    let Mmax = 0;
+    nodes.forEach((x, i) => {
+        if (i > 0) Mmax = Math.max(Mmax, Math.abs(at(x, 'left').M));
+        if (i < nodes.length - 1) Mmax = Math.max(Mmax, Math.abs(at(x, 'right').M));
+    });
+    nodes.slice(1).forEach((b, i) => {
+        // V is continuous inside an element: bisect a sign change for the extremum of M
+        let a = nodes[i];
+        let Va = at(a, 'right').V;
+        if (Va * at(b, 'left').V >= 0) return;
+        for (let k = 0; k < 50 && b - a > NODE_TOL; k++) {
+            const m = (a + b) / 2;
+            const Vm = at(m, 'right').V;
+            if (Va * Vm <= 0) b = m; else { a = m; Va = Vm; }
+        }
+        Mmax = Math.max(Mmax, Math.abs(at((a + b) / 2, 'right').M));
+    });
+    return Mmax;
+};
+
+/**
+ * Cb = 12.5·Mmax / (2.5·Mmax + 3·MA + 4·MB + 3·MC) with the quarter-point moments of the segment.
+ */
+const momentGradientFactor = (solution: BeamSolution, x1: number, x2: number, Mmax: number) => {
+    if (!(Mmax > 0)) return 1;
+    const [MA, MB, MC] = [0.25, 0.5, 0.75].map(r => Math.abs(internalForcesAt(x1 + r * (x2 - x1), solution.loads, solution.reactions).M));
+    return Math.min(CB_MAX, 12.5 * Mmax / (2.5 * Mmax + 3 * MA + 4 * MB + 3 * MC));
+};
+
+/**
+ * LTB check of the current beam; null for sections other than I-beams and channels.
+ */
+export const calculateLateralBuckling = (params: SimulationParams): LtbResult | null => {
+    if (!LTB_SECTION_TYPES.includes(params.sectionType)) return null;
+    const section = calculateSectionProperties(params);
+    const J = section.torsionConstant;
+    const Cw = section.warpingConstant;
+    if (J === null || Cw === null || section.geometryError) return null;
+
+    const L = params.length;
+    const E = params.youngsModulus;
+    const G = getShearModulus(params);
+    const Fy = params.yieldStrength;
+    const Sx = Math.min(section.sectionModulusTop, section.sectionModulusBottom);
+    const Mp = Fy * section.plasticModulus;
+    const Mr = 0.7 * Fy * Sx;
+
+    // Lp = 1.76·ry·√(E/Fy); Lr solves Mcr0(Lr) = 0.7·Fy·Sx
+    const Lp = 1.76 * section.ry * Math.sqrt(E / Fy);
+    const a = E * section.Iy * G * J;
+    const b = Math.pow(Math.PI * E, 2) * section.Iy * Cw;
+    const m2 = Mr * Mr / (Math.PI * Math.PI);
+    const u = b > 0 ? (-a + Math.sqrt(a * a + 4 * b * m2)) / (2 * b) : m2 / a; // u = 1/Lr²
+    const Lr = u > 0 ? 1 / Math.sqrt(u) : Infinity;
+
+    const nominal = (Lb: number, Cb: number, Mcr: number) => {
+        if (Lb <= Lp) return Mp;
+        if (Lb <= Lr) return Math.min(Mp, Cb * (Mp - (Mp - Mr) * (Lb - Lp) / (Lr - Lp)));
+        return Math.min(Mp, Mcr);
+    };
+
+    // Braced points: the supports and the lateral braces; overhangs beyond them are cantilevers
+    const solution = solveBeam(params);
+    const braced = [...new Set([
+        ...getSupports(params).map(s => s.x),
+        ...(params.lateralBraces || [])
+    ].filter(x => x >= 0 && x <= L))].sort((p, q) => p - q);
+    const ranges: [number, number, boolean][] = [];
+    if (braced.length === 0) {
+        ranges.push([0, L, true]);
+    } else {
+        if (braced[0] > 0) ranges.push([0, braced[0], true]);
+        braced.slice(1).forEach((x, i) => ranges.push([braced[i], x, false]));
+        if (braced[braced.length - 1] < L) ranges.push([braced[braced.length - 1], L, true]);
+    }
+
+    const segments: LtbSegment[] = ranges.filter(([x1, x2]) => x2 > x1).map(([x1, x2, isCantilever]) => {
+        const Lb = params.unbracedLength ?? (x2 - x1);
+        const Mmax = solution.isStable ? segmentMaxMoment(solution, x1, x2) : 0;
+        const Cb = isCantilever ? 1 : momentGradientFactor(solution, x1, x2, Mmax);
+        const Mcr = Cb * uniformMcr(Lb, E, G, section.Iy, J, Cw);
+        const Mn = nominal(Lb, Cb, Mcr);
+        return { x1, x2, Lb, isCantilever, Mmax, Cb, Mcr, Mn, utilization: Mn > 0 ? Mmax / Mn : Infinity };
+    });
+    const governing = segments.reduce<LtbSegment | null>((best, s) => !best || s.utilization > best.utilization ? s : best, null);
+
+    return { Mp, Lp, Lr, segments, governing, utilization: governing?.utilization ?? 0 };
+};
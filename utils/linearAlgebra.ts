@@ -0,0 +1,198 @@
+/**
+ * Small dense linear algebra helpers for the structural solvers.
+ */
+
+export const createMatrix = (rows: number, cols: number): number[][] =>
+    Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+/**
+ * Solves A·x = b by Gaussian elimination with partial pivoting.
+ * Returns null when the system is singular (e.g. an unstable support layout).
+ */
+export const solveLinearSystem = (A: number[][], b: number[]): number[] | null => {
+    const n = b.length;
+    if (n === 0) return [];
+
+    // Work on copies so callers can reuse the assembled system
+    const M = A.map(row => row.slice());
+    const x = b.slice();
+
+    // Scale-aware singularity tolerance
+    let maxDiag = 0;
+    for (let i = 0; i < n; i++) maxDiag = Math.max(maxDiag, Math.abs(M[i][i]));
+    const tol = Math.max(maxDiag, 1) * 1e-12;
+
+    for (let k = 0; k < n; k++) {
+        // Pivot
+        let p = k;
+        for (let i = k + 1; i < n; i++) {
+            if (Math.abs(M[i][k]) > Math.abs(M[p][k])) p = i;
+        }
+        if (Math.abs(M[p][k]) < tol) return null;
+        if (p !== k) {
+            [M[p], M[k]] = [M[k], M[p]];
+            [x[p], x[k]] = [x[k], x[p]];
+        }
+
+        // Eliminate
+        for (let i = k + 1; i < n; i++) {
+            const f = M[i][k] / M[k][k];
+            if (f === 0) continue;
+            for (let j = k; j < n; j++) M[i][j] -= f * M[k][j];
+            x[i] -= f * x[k];
+        }
+    }
+
+    // Back substitution
+    for (let i = n - 1; i >= 0; i--) {
+        let s = x[i];
+        for (let j = i + 1; j < n; j++) s -= M[i][j] * x[j];
+        x[i] = s / M[i][i];
+    }
+    return x;
+};
+
+/**
+ * Solves A·x = b for a symmetric positive-definite band matrix by Cholesky factorisation.
+ * band[i][k] holds A[i][i + k] for k = 0..halfBandwidth (upper half only).
+ * Returns null when the matrix is not positive definite (e.g. an unconstrained rigid-body mode).
+ */
+export const solveBandedSPD = (band: number[][], b: number[], halfBandwidth: number): number[] | null => {
+    const n = b.length;
+    const m = halfBandwidth;
+    if (n === 0) return [];
+
+    // Factor in place on a copy: A = Uᵀ·U, U stored in the same band layout
+    const U = band.map(row => row.slice());
+    let maxDiag = 0;
+    for (let i = 0; i < n; i++) maxDiag = Math.max(maxDiag, Math.abs(U[i][0]));
+    const tol = Math.max(maxDiag, 1e-300) * 1e-12;
+
+    for (let j = 0; j < n; j++) {
+        let d = U[j][0];
+        for (let k = Math.max(0, j - m); k < j; k++) d -= U[k][j - k] * U[k][j - k];
+        if (d <= tol) return null;
+        d = Math.sqrt(d);
+        U[j][0] = d;
+
+        for (let i = j + 1; i <= Math.min(n - 1, j + m); i++) {
+            let s = U[j][i - j];
+            for (let k = Math.max(0, i - m); k < j; k++) s -= U[k][j - k] * U[k][i - k];
+            U[j][i - j] = s / d;
+        }
+    }
+
+    // Forward substitution Uᵀ·y = b
+    const x = b.slice();
+    for (let i = 0; i < n; i++) {
+        let s = x[i];
+        for (let k = Math.max(0, i - m); k < i; k++) s -= U[k][i - k] * x[k];
+        x[i] = s / U[i][0];
+    }
+
+    // Back substitution U·x = y
+    for (let i = n - 1; i >= 0; i--) {
+        let s = x[i];
+        for (let k = i + 1; k <= Math.min(n - 1, i + m); k++) s -= U[i][k - i] * x[k];
+        x[i] = s / U[i][0];
+    }
+    return x;
+};
+
+/**
+ * Cholesky factor L (lower triangular, A = L·Lᵀ) of a symmetric positive-definite matrix.
+ * Returns null when A is not positive definite.
+ */
+export const choleskyLower = (A: number[][]): number[][] | null => {
+    const n = A.length;
+    const L = createMatrix(n, n);
+    for (let j = 0; j < n; j++) {
+        let d = A[j][j];
+        for (let k = 0; k < j; k++) d -= L[j][k] * L[j][k];
+        if (d <= 0) return null;
+        L[j][j] = Math.sqrt(d);
+        for (let i = j + 1; i < n; i++) {
+            let s = A[i][j];
+            for (let k = 0; k < j; k++) s -= L[i][k] * L[j][k];
+            L[i][j] = s / L[j][j];
+        }
+    }
+    return L;
+};
+
+/**
+ * Solves L·y = b for a lower-triangular L.
+ */
+export const forwardSubstitute = (L: number[][], b: number[]): number[] => {
+    const y = b.slice();
+    for (let i = 0; i < y.length; i++) {
+        for (let k = 0; k < i; k++) y[i] -= L[i][k] * y[k];
+        y[i] /= L[i][i];
+    }
+    return y;
+};
+
+/**
+ * Solves Lᵀ·x = b for a lower-triangular L.
+ */
+export const backSubstitute = (L: number[][], b: number[]): number[] => {
+    const x = b.slice();
+    for (let i = x.length - 1; i >= 0; i--) {
+        for (let k = i + 1; k < x.length; k++) x[i] -= L[k][i] * x[k];
+        x[i] /= L[i][i];
+    }
+    return x;
+};
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric matrix by cyclic Jacobi rotations,
+ * sorted by ascending eigenvalue. vectors[k] is the unit eigenvector of values[k].
+ */
+export const symmetricEigen = (A: number[][], maxSweeps: number = 60) => {
+    const n = A.length;
+    const a = A.map(row => row.slice());
+    const V = createMatrix(n, n);
+    for (let i = 0; i < n; i++) V[i][i] = 1;
+
+    for (let sweep = 0; sweep < maxSweeps; sweep++) {
+        let off = 0, diag = 0;
+        for (let i = 0; i < n; i++) {
+            diag += a[i][i] * a[i][i];
+            for (let j = i + 1; j < n; j++) off += a[i][j] * a[i][j];
+        }
+        if (off <= 1e-24 * Math.max(diag, 1e-300)) break;
+
+        for (let p = 0; p < n - 1; p++) {
+            for (let q = p + 1; q < n; q++) {
+                const apq = a[p][q];
+                if (apq === 0) continue;
+                // Rotation angle that zeroes a[p][q]
+                const theta = (a[q][q] - a[p][p]) / (2 * apq);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+                for (let k = 0; k < n; k++) {
+                    const akp = a[k][p], akq = a[k][q];
+                    a[k][p] = c * akp - s * akq;
+                    a[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = a[p][k], aqk = a[q][k];
+                    a[p][k] = c * apk - s * aqk;
+                    a[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = V[k][p], vkq = V[k][q];
+                    V[k][p] = c * vkp - s * vkq;
+                    V[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+
+    const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[i][i] - a[j][j]);
+    return {
+        values: order.map(i => a[i][i]),
+        vectors: order.map(i => V.map(row => row[i]))
+    };
+};
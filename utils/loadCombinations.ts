@@ -0,0 +1,110 @@
+import { SimulationParams, LoadDefinition, LoadCase, LoadCombination } from '../types';
+
+/**
+ * Load cases and factored combinations (ASCE 7 ASD/LRFD, EN 1990).
+ */
+
+export const LOAD_CASES: [LoadCase, string][] = [
+    ['D', '靜載重 Dead'],
+    ['L', '活載重 Live'],
+    ['W', '風載重 Wind'],
+    ['S', '雪載重 Snow']
+];
+
+// Loads without a case are treated as live load (the larger factors in most combinations)
+export const getLoadCase = (l: LoadDefinition): LoadCase => l.loadCase ?? 'L';
+
+export type CombinationCode = 'ASD' | 'LRFD' | 'EC';
+
+// [name, factors]
+type PresetRow = [string, Partial<Record<LoadCase, number>>];
+
+const PRESET_ROWS: Record<CombinationCode, PresetRow[]> = {
+    // ASCE 7-16 §2.4.1 (Lr, R and E not modelled)
+    ASD: [
+        ['D', { D: 1 }],
+        ['D+L', { D: 1, L: 1 }],
+        ['D+S', { D: 1, S: 1 }],
+        ['D+0.75L+0.75S', { D: 1, L: 0.75, S: 0.75 }],
+        ['D+0.6W', { D: 1, W: 0.6 }],
+        ['D+0.75L+0.45W+0.75S', { D: 1, L: 0.75, W: 0.45, S: 0.75 }],
+        ['0.6D+0.6W', { D: 0.6, W: 0.6 }]
+    ],
+    // ASCE 7-16 §2.3.1
+    LRFD: [
+        ['1.4D', { D: 1.4 }],
+        ['1.2D+1.6L+0.5S', { D: 1.2, L: 1.6, S: 0.5 }],
+        ['1.2D+1.6S+L', { D: 1.2, S: 1.6, L: 1 }],
+        ['1.2D+1.6S+0.5W', { D: 1.2, S: 1.6, W: 0.5 }],
+        ['1.2D+W+L+0.5S', { D: 1.2, W: 1, L: 1, S: 0.5 }],
+        ['0.9D+W', { D: 0.9, W: 1 }]
+    ],
+    // EN 1990 eq. 6.10 with ψ0 = 0.7 (imposed), 0.5 (snow), 0.6 (wind)
+    EC: [
+        ['1.35G', { D: 1.35 }],
+        ['1.35G+1.5Q+0.75S+0.9W', { D: 1.35, L: 1.5, S: 0.75, W: 0.9 }],
+        ['1.35G+1.5S+1.05Q+0.9W', { D: 1.35, S: 1.5, L: 1.05, W: 0.9 }],
+        ['1.35G+1.5W+1.05Q+0.75S', { D: 1.35, W: 1.5, L: 1.05, S: 0.75 }],
+        ['1.0G+1.5W', { D: 1, W: 1.5 }]
+    ]
+};
+
+export const COMBINATION_CODES: [CombinationCode, string][] = [
+    ['ASD', 'ASD'],
+    ['LRFD', 'LRFD'],
+    ['EC', 'Eurocode']
+];
+
+export const getCombinationPreset = (code: CombinationCode): LoadCombination[] =>
+    PRESET_ROWS[code].map(([name, factors], i) => ({ id: `${code}-${i + 1}`, name: `${code} ${name}`, factors }));
+
+// Eurocode symbols: G (permanent) and Q (imposed)
+const CASE_ALIASES: Record<string, LoadCase> = { D: 'D', G: 'D', L: 'L', Q: 'L', W: 'W', S: 'S' };
+
+/**
+ * Parses a combination such as "1.2D + 1.6L + 0.5S" (or "1.35G+1.5Q"); null if it is not valid.
+ */
+export const parseCombination = (text: string): Partial<Record<LoadCase, number>> | null => {
+    const compact = text.replace(/\s+/g, '').toUpperCase();
+    if (!compact) return null;
+    const term = /([+-]?)(\d*\.?\d*)\*?([A-Z])/g;
+    const factors: Partial<Record<LoadCase, number>> = {};
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+    while ((match = term.exec(compact)) !== null) {
+        if (match.index !== consumed) return null;
+        const [whole, sign, value, symbol] = match;
+        const loadCase = CASE_ALIASES[symbol];
+        // Every term after the first needs an explicit operator ("1.2D1.6L" is rejected)
+        if (!loadCase || value === '.' || (consumed > 0 && !sign)) return null;
+        const factor = (sign === '-' ? -1 : 1) * (value ? Number(value) : 1);
+        factors[loadCase] = (factors[loadCase] ?? 0) + factor;
+        consumed += whole.length;
+    }
+    return consumed === compact.length ? factors : null;
+};
+
+/**
+ * Text form of the factors, e.g. "1.2D + 1.6L".
+ */
+export const formatCombination = (factors: Partial<Record<LoadCase, number>>) =>
+    LOAD_CASES
+        .filter(([c]) => factors[c])
+        .map(([c], i) => {
+            const f = factors[c]!;
+            const sign = f < 0 ? (i === 0 ? '-' : ' - ') : (i === 0 ? '' : ' + ');
+            return `${sign}${Math.abs(f) === 1 ? '' : Math.abs(f)}${c}`;
+        })
+        .join('') || '0';
+
+export const findCombination = (params: SimulationParams) =>
+    params.activeCombination
+        ? (params.loadCombinations || []).find(c => c.id === params.activeCombination) ?? null
+        : null;
+
+/**
+ * Scales each load by the factor of its case. Loads with a zero factor are kept (val = 0)
+ * so every combination has the same load positions and diagram segments.
+ */
+export const applyCombination = (loads: LoadDefinition[], combination: LoadCombination): LoadDefinition[] =>
+    loads.map(l => ({ ...l, val: l.val * (combination.factors[getLoadCase(l)] ?? 0) }));
@@ -0,0 +1,132 @@
+import { SimulationParams } from '../types';
+
+/**
+ * Material database: common structural steels, aluminium alloys, timber, concrete and titanium,
+ * plus user-defined materials kept in localStorage. All values in SI (Pa, kg/m³, 1/K).
+ */
+
+export type MaterialCategory = 'steel' | 'aluminum' | 'timber' | 'concrete' | 'titanium' | 'user';
+
+export interface Material {
+    id: string;
+    name: string;
+    category: MaterialCategory;
+    standard?: string;
+    E: number;                     // Young's modulus (Pa)
+    G: number;                     // Shear modulus (Pa)
+    nu: number;                    // Poisson's ratio
+    density: number;               // kg/m³
+    yieldStrength: number;         // Pa (timber: bending strength f_m,k; concrete: f_ck)
+    ultimateStrength: number;      // Pa
+    enduranceLimit: number | null; // Fatigue limit (Pa), null if not defined
+    thermalExpansion: number;      // α (1/K)
+}
+
+const GPa = 1e9, MPa = 1e6;
+
+// [id, name, category, standard, E (GPa), G (GPa), ν, ρ, σy, σu, Se (MPa), α (µm/m·K)]
+type MaterialRow = [string, string, MaterialCategory, string, number, number, number, number, number, number, number | null, number];
+
+const MATERIAL_ROWS: MaterialRow[] = [
+    ['SS400', 'SS400', 'steel', 'JIS G 3101 / CNS 2473', 205, 79, 0.3, 7850, 245, 400, 200, 11.7],
+    ['A36', 'ASTM A36', 'steel', 'ASTM A36', 200, 79.3, 0.26, 7850, 250, 400, 160, 11.7],
+    ['A992', 'ASTM A992', 'steel', 'ASTM A992', 200, 77.2, 0.3, 7850, 345, 450, 190, 11.7],
+    ['S355', 'S355', 'steel', 'EN 10025-2', 210, 81, 0.3, 7850, 355, 510, 255, 12],
+    ['AL6061-T6', 'Al 6061-T6', 'aluminum', 'ASTM B221', 68.9, 26, 0.33, 2700, 276, 310, 96.5, 23.6],
+    ['AL6063-T5', 'Al 6063-T5', 'aluminum', 'ASTM B221', 68.9, 25.8, 0.33, 2700, 145, 186, 68.9, 23.4],
+    ['AL7075-T6', 'Al 7075-T6', 'aluminum', 'ASTM B209', 71.7, 26.9, 0.33, 2810, 503, 572, 159, 23.6],
+    // Timber: parallel to grain; the low G is the grain-direction shear modulus, ν is nominal
+    ['C24', 'C24 針葉材', 'timber', 'EN 338', 11, 0.69, 0.3, 420, 24, 24, null, 4],
+    ['C30', 'C30 針葉材', 'timber', 'EN 338', 12, 0.75, 0.3, 460, 30, 30, null, 4],
+    ['GL24h', 'GL24h 集成材', 'timber', 'EN 14080', 11.5, 0.65, 0.3, 420, 24, 24, null, 4],
+    // Concrete: compressive strengths (f_ck, f_cm); tension cracking is not modelled
+    ['C25/30', 'C25/30 混凝土', 'concrete', 'EN 1992-1-1', 31, 12.9, 0.2, 2400, 25, 33, null, 10],
+    ['C30/37', 'C30/37 混凝土', 'concrete', 'EN 1992-1-1', 33, 13.8, 0.2, 2400, 30, 38, null, 10],
+    ['TI-GR2', 'Ti Grade 2', 'titanium', 'ASTM B348', 105, 45, 0.37, 4510, 275, 345, null, 8.6],
+    ['TI-6AL-4V', 'Ti-6Al-4V', 'titanium', 'ASTM B348 Gr. 5', 113.8, 44, 0.342, 4430, 880, 950, 510, 8.6]
+];
+
+export const MATERIALS: Material[] = MATERIAL_ROWS.map(([id, name, category, standard, E, G, nu, density, fy, fu, se, alpha]) => ({
+    id, name, category, standard,
+    E: E * GPa, G: G * GPa, nu, density,
+    yieldStrength: fy * MPa, ultimateStrength: fu * MPa,
+    enduranceLimit: se === null ? null : se * MPa,
+    thermalExpansion: alpha * 1e-6
+}));
+
+// --- User-defined materials ---
+
+const STORAGE_KEY = 'structsim.materials';
+
+const readUserMaterials = (): Material[] => {
+    try {
+        const stored = typeof localStorage !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
+        const list = stored ? JSON.parse(stored) : [];
+        return Array.isArray(list) ? list.filter(m => m && typeof m.id === 'string' && m.E > 0) : [];
+    } catch {
+        return [];
+    }
+};
+
+let userMaterials: Material[] = readUserMaterials();
+
+export const getUserMaterials = () => userMaterials;
+
+const writeUserMaterials = (list: Material[]) => {
+    userMaterials = list;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+    } catch {
+        // Storage unavailable (private mode, quota): keep the materials for this session only
+    }
+};
+
+/**
+ * Stores a user material (replacing one with the same id) and returns the saved entry.
+ */
+export const saveUserMaterial = (material: Omit<Material, 'id' | 'category'> & { id?: string }): Material => {
+    const saved: Material = { ...material, id: material.id ?? `user-${Date.now()}`, category: 'user' };
+    writeUserMaterials([...userMaterials.filter(m => m.id !== saved.id), saved]);
+    return saved;
+};
+
+export const deleteUserMaterial = (id: string) => {
+    writeUserMaterials(userMaterials.filter(m => m.id !== id));
+};
+
+export const getAllMaterials = () => [...MATERIALS, ...userMaterials];
+
+export const findMaterial = (id: string | null | undefined) =>
+    id ? getAllMaterials().find(m => m.id === id) ?? null : null;
+
+/**
+ * Material parameters of an entry (the simulation keeps its own copy of E, ν, σy and ρ).
+ */
+export const getMaterialParams = (material: Material): Partial<SimulationParams> => ({
+    materialId: material.id,
+    youngsModulus: material.E,
+    poissonsRatio: material.nu,
+    yieldStrength: material.yieldStrength,
+    density: material.density
+});
+
+/**
+ * The material the parameters refer to, if its values still match (manual edits detach it).
+ */
+export const getActiveMaterial = (params: SimulationParams) => {
+    const material = findMaterial(params.materialId);
+    if (!material) return null;
+    const close = (a: number, b: number) => Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(b));
+    const same = close(params.youngsModulus, material.E)
+        && close(params.poissonsRatio ?? 0.3, material.nu)
+        && close(params.yieldStrength, material.yieldStrength)
+        && close(params.density ?? 7850, material.density);
+    return same ? material : null;
+};
+
+/**
+ * Shear modulus: the tabulated G of the active material (timber is far from isotropic),
+ * otherwise E / 2(1 + ν).
+ */
+export const getShearModulus = (params: SimulationParams) =>
+    getActiveMaterial(params)?.G ?? params.youngsModulus / (2 * (1 + (params.poissonsRatio ?? 0.3)));
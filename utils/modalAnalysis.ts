@@ -0,0 +1,207 @@
+import { SimulationParams } from '../types';
+import { getSupports } from './beamModel';
+import { elementStiffness } from './beamSolver';
+import { calculateSectionProperties, getShearRigidity } from './physics';
+import { createMatrix, choleskyLower, symmetricEigen, forwardSubstitute, backSubstitute } from './linearAlgebra';
+
+/**
+ * Free vibration of the beam: K·φ = ω²·M·φ with the beam element stiffness and the
+ * consistent mass matrix of m = ρ·A (translational inertia only).
+ */
+
+export interface ModeShape {
+    frequency: number; // Hz
+    omega: number;     // rad/s
+    period: number;    // s
+    xs: number[];      // Node positions
+    v: number[];       // Mode shape, scaled to max |v| = 1
+    theta: number[];   // Rotations on the same scale
+    massRatio: number; // Effective vertical mass / total mass
+}
+
+export interface ModalResult {
+    modes: ModeShape[];
+    massPerLength: number; // kg/m
+    rigidModes: number;    // Zero-frequency mechanisms (unstable supports)
+}
+
+const NODE_TOL = 1e-9;
+
+/**
+ * Consistent mass matrix of a 2-node beam element (DOFs: v1, θ1, v2, θ2).
+ */
+const elementMass = (m: number, h: number): number[][] => {
+    const k = m * h / 420;
+    return [
+        [156 * k, 22 * h * k, 54 * k, -13 * h * k],
+        [22 * h * k, 4 * h * h * k, 13 * h * k, -3 * h * h * k],
+        [54 * k, 13 * h * k, 156 * k, -22 * h * k],
+        [-13 * h * k, -3 * h * h * k, -22 * h * k, 4 * h * h * k]
+    ];
+};
+
+/**
+ * Uniform nodes (16–32 elements, plenty for the lower modes) plus the support points and any extra points.
+ */
+const buildModalNodes = (params: SimulationParams, extra: number[]) => {
+    const L = params.length;
+    const count = Math.max(16, Math.min(32, params.meshDensityX || 32));
+    const pts = [
+        ...Array.from({ length: count + 1 }, (_, i) => i * L / count),
+        ...getSupports(params).map(s => s.x),
+        ...extra.filter(x => x >= 0 && x <= L)
+    ].sort((a, b) => a - b);
+    return pts.filter((x, i) => i === 0 || x - pts[i - 1] > NODE_TOL);
+};
+
+export interface BeamDynamicSystem {
+    xs: number[];     // Node positions (DOFs v, θ per node)
+    free: number[];   // Unsupported DOFs, in the order of Kff / Mff
+    Kff: number[][];
+    Mff: number[][];
+    EI: number;
+    massPerLength: number;
+}
+
+/**
+ * Stiffness and consistent mass matrices reduced to the unsupported DOFs; null without stiffness or mass.
+ */
+export const assembleDynamicSystem = (params: SimulationParams, extraNodes: number[] = []): BeamDynamicSystem | null => {
+    const { I, massPerLength: m } = calculateSectionProperties(params);
+    const EI = params.youngsModulus * I;
+    const GAs = getShearRigidity(params);
+    const xs = buildModalNodes(params, extraNodes);
+    const nDof = xs.length * 2;
+    if (!(EI > 0) || !(m > 0)) return null;
+
+    // 1. Assemble K and M
+    const K = createMatrix(nDof, nDof);
+    const M = createMatrix(nDof, nDof);
+    for (let e = 0; e < xs.length - 1; e++) {
+        const h = xs[e + 1] - xs[e];
+        const phi = Number.isFinite(GAs) && GAs > 0 ? 12 * EI / (GAs * h * h) : 0;
+        const ke = elementStiffness(EI, h, phi);
+        const me = elementMass(m, h);
+        const dofs = [2 * e, 2 * e + 1, 2 * e + 2, 2 * e + 3];
+        for (let a = 0; a < 4; a++) {
+            for (let b = 0; b < 4; b++) {
+                K[dofs[a]][dofs[b]] += ke[a][b];
+                M[dofs[a]][dofs[b]] += me[a][b];
+            }
+        }
+    }
+
+    // 2. Remove the supported DOFs
+    const findNode = (x: number) => xs.reduce((best, xn, i) => Math.abs(xn - x) < Math.abs(xs[best] - x) ? i : best, 0);
+    const fixed = new Set<number>();
+    getSupports(params).forEach(s => {
+        const n = findNode(s.x);
+        fixed.add(2 * n);
+        if (s.type === 'fixed') fixed.add(2 * n + 1);
+    });
+    const free = [...Array(nDof).keys()].filter(d => !fixed.has(d));
+    return {
+        xs,
+        free,
+        Kff: free.map(i => free.map(j => K[i][j])),
+        Mff: free.map(i => free.map(j => M[i][j])),
+        EI,
+        massPerLength: m
+    };
+};
+
+/**
+ * Expands a vector over the free DOFs to nodal v and θ (zero at the supported DOFs).
+ */
+export const expandNodalValues = (system: BeamDynamicSystem, values: number[]) => {
+    const full = new Array(system.xs.length * 2).fill(0);
+    system.free.forEach((dof, i) => { full[dof] = values[i]; });
+    return {
+        v: system.xs.map((_, i) => full[2 * i]),
+        theta: system.xs.map((_, i) => full[2 * i + 1])
+    };
+};
+
+/**
+ * First `count` natural frequencies and mode shapes for the current supports.
+ */
+export const calculateModes = (params: SimulationParams, count: number = params.modeCount || 5): ModalResult => {
+    const { massPerLength: m } = calculateSectionProperties(params);
+    const empty = { modes: [], massPerLength: m, rigidModes: 0 };
+    const system = assembleDynamicSystem(params);
+    if (!system) return empty;
+    const { xs, free, Kff, Mff } = system;
+    const n = free.length;
+
+    // 1. Standard form C = L⁻¹·K·L⁻ᵀ with M = L·Lᵀ
+    const L = choleskyLower(Mff);
+    if (!L) return empty;
+    const forward = (b: number[]) => forwardSubstitute(L, b);
+    const backward = (b: number[]) => backSubstitute(L, b);
+    const B = Kff.map(col => forward(col));                      // B[j] = column j of L⁻¹·K (K is symmetric)
+    const C = free.map((_, i) => forward(B.map(col => col[i])));  // Row i of L⁻¹·K·L⁻ᵀ = L⁻¹·(row i of L⁻¹·K)
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) C[i][j] = C[j][i] = 0.5 * (C[i][j] + C[j][i]);
+    }
+    const { values, vectors } = symmetricEigen(C);
+
+    // 2. Mechanisms show up as (numerically) zero eigenvalues
+    const scale = Math.max(...values.map(Math.abs), 1e-300);
+    const rigidModes = values.filter(w2 => w2 < scale * 1e-10).length;
+
+    // Influence vector of a unit vertical ground motion (v DOFs only)
+    const r = free.map(d => d % 2 === 0 ? 1 : 0);
+    const totalMass = m * params.length;
+
+    const modes = values.slice(rigidModes, rigidModes + count).map((w2, k) => {
+        const phi = backward(vectors[rigidModes + k]); // Mass-normalised: φᵀ·M·φ = 1
+        let gamma = 0;
+        for (let i = 0; i < n; i++) {
+            let Mr = 0;
+            for (let j = 0; j < n; j++) Mr += Mff[i][j] * r[j];
+            gamma += phi[i] * Mr;
+        }
+
+        const { v, theta } = expandNodalValues(system, phi);
+        const vMax = v.reduce((a, b) => Math.abs(b) > Math.abs(a) ? b : a, 0) || 1;
+
+        const omega = Math.sqrt(Math.max(0, w2));
+        return {
+            frequency: omega / (2 * Math.PI),
+            omega,
+            period: omega > 0 ? 2 * Math.PI / omega : Infinity,
+            xs,
+            v: v.map(x => x / vMax),
+            theta: theta.map(x => x / vMax),
+            massRatio: gamma * gamma / totalMass
+        };
+    });
+
+    return { modes, massPerLength: m, rigidModes };
+};
+
+/**
+ * Mode shape (or any nodal v, θ field) v and rotation θ at x (cubic Hermite interpolation inside an element).
+ */
+export const sampleModeShape = (mode: Pick<ModeShape, 'xs' | 'v' | 'theta'>, x: number) => {
+    const { xs, v, theta } = mode;
+    let e = 0;
+    while (e < xs.length - 2 && xs[e + 1] < x) e++;
+    const h = xs[e + 1] - xs[e];
+    if (!(h > 0)) return { v: v[e] ?? 0, theta: theta[e] ?? 0 };
+    const s = Math.max(0, Math.min(1, (x - xs[e]) / h));
+    const N = [1 - 3 * s * s + 2 * s ** 3, h * (s - 2 * s * s + s ** 3), 3 * s * s - 2 * s ** 3, h * (s ** 3 - s * s)];
+    const dN = [(-6 * s + 6 * s * s) / h, 1 - 4 * s + 3 * s * s, (6 * s - 6 * s * s) / h, 3 * s * s - 2 * s];
+    const d = [v[e], theta[e], v[e + 1], theta[e + 1]];
+    return {
+        v: N.reduce((sum, Ni, i) => sum + Ni * d[i], 0),
+        theta: dN.reduce((sum, Ni, i) => sum + Ni * d[i], 0)
+    };
+};
+
+// Minimum fundamental frequency (Hz) for vibration serviceability
+export const VIBRATION_LIMITS: [number, string][] = [
+    [3, '辦公樓板 f₁ ≥ 3 Hz (SCI P354)'],
+    [5, '人行橋 f₁ ≥ 5 Hz (EN 1990 A2)'],
+    [9, '韻律活動 f₁ ≥ 9 Hz (AISC DG11)']
+];
@@ -1,118 +1,191 @@
-import { SimulationParams, NodePoint, MeshElement } from '../types';
+import { SimulationParams, NodePoint, MeshElement, StressComponent } from '../types';
+import { getActiveLoads, getSupports } from './beamModel';
+import { BeamSolution, solveBeamStiffness, sampleBeamSolution, internalForcesAt } from './beamSolver';
+import { PlaneStressSolution } from './planeStress';
+import { getActiveSteelShape } from './steelShapes';
+import { getShearModulus } from './materials';
+import { getSectionShape, getSectionHalfWidth, analyzeSection, energyShearArea, sectionCentroid, firstMomentAbove, getWidthBreaks } from './sectionGeometry';
+
+const STEEL_DENSITY = 7850; // kg/m³, basis of the tabulated catalog mass
 
 /**
- * Calculates Moment of Inertia (I) based on section type and dimensions.
+ * Section properties about the horizontal centroidal axis: area, I, centroid height
+ * (from the bottom fibre), extreme fibre distances, elastic and plastic moduli, radii of
+ * gyration, torsion and warping constants, shape factor and mass per length.
+ * Asymmetric shapes (T, channel, angle, custom) bend about the horizontal axis; the
+ * product of inertia is reported but not used in the stress solution.
+ * Invalid dimensions are analysed as the solid bounding rectangle and reported in geometryError.
  */
 export const calculateSectionProperties = (params: SimulationParams) => {
-    const { 
-        height: H, 
-        sectionType, 
-        sectionWidth: B_rect, 
-        flangeWidth: B_flange, 
-        flangeThickness: tf, 
-        webThickness: tw 
-    } = params;
+    const shape = getSectionShape(params);
+    const section = analyzeSection(shape);
+    const { Q: Qmax } = calculateFirstMoment(params, 0);
+    // Catalog shapes use the tabulated values (fillets included) for the stiffness and moduli
+    const steel = getActiveSteelShape(params);
+    const tabulated = steel ? {
+        area: steel.area,
+        Ix: steel.Ix,
+        sectionModulusTop: steel.Sx,
+        sectionModulusBottom: steel.Sx,
+        plasticModulus: steel.Zx,
+        rx: Math.sqrt(steel.Ix / steel.area)
+    } : {};
 
-    let I = 0; // Moment of Inertia
-    let area = 0; // Cross section area (for future shear calc)
-
-    if (sectionType === 'rectangular') {
-        // I = (b * h^3) / 12
-        I = (B_rect * Math.pow(H, 3)) / 12;
-        area = B_rect * H;
-    } else if (sectionType === 'circular') {
-        // I = (pi * d^4) / 64, here H is diameter
-        I = (Math.PI * Math.pow(H, 4)) / 64;
-        area = Math.PI * Math.pow(H/2, 2);
-    } else if (sectionType === 'ibeam') {
-        // I = (B * H^3 - b * h^3) / 12
-        // Outer box: Width B_flange, Height H
-        // Inner cutouts: Width (B_flange - tw), Height (H - 2*tf)
-        const innerH = H - 2 * tf;
-        const innerB = B_flange - tw;
-        
-        // Clamp innerH to be at least 0 to avoid NaN if user sets thickness too high
-        if (innerH > 0 && innerB > 0) {
-            I = ((B_flange * Math.pow(H, 3)) - (innerB * Math.pow(innerH, 3))) / 12;
-            area = (2 * B_flange * tf) + (tw * innerH);
-        } else {
-            // Fallback if geometry is invalid, treat as solid block
-            I = (B_flange * Math.pow(H, 3)) / 12;
-        }
+    const props = { ...section, ...tabulated };
+
+    // Weak-axis modulus to the extreme fibre on the far side of the centroid
+    const cy = getSectionHalfWidth(shape) + Math.abs(section.xc);
+    const elasticModulus = Math.min(props.sectionModulusTop, props.sectionModulusBottom);
+
+    return {
+        ...props,
+        I: props.Ix, // Moment of Inertia
+        shearArea: shape.shearArea ?? energyShearArea(shape), // Effective shear area κ·A (Timoshenko)
+        centroid: section.yc,
+        Qmax,
+        sectionModulusY: cy > 0 ? section.Iy / cy : 0,
+        shapeFactor: elasticModulus > 0 ? props.plasticModulus / elasticModulus : 0,
+        torsionConstant: shape.torsionConstant ?? null,
+        warpingConstant: shape.warpingConstant ?? null,
+        // kg/m; catalog shapes use the tabulated steel mass (scaled for a non-steel density)
+        massPerLength: steel ? steel.mass * (params.density ?? STEEL_DENSITY) / STEEL_DENSITY : props.area * (params.density ?? STEEL_DENSITY),
+        geometryError: shape.error ?? null,
+        steelShape: steel
+    };
+};
+
+/**
+ * First moment Q of the area beyond fibre y (measured from the neutral axis) and the section width b(y).
+ */
+export const calculateFirstMoment = (params: SimulationParams, y: number) => {
+    const shape = getSectionShape(params);
+    const centroid = sectionCentroid(shape);
+    return firstMomentAbove(shape, centroid, centroid + y);
+};
+
+/**
+ * Distance from the mesh mid-depth line up to the neutral axis (zero for symmetric sections).
+ */
+export const getNeutralAxisOffset = (params: SimulationParams) => {
+    const { centroid } = calculateSectionProperties(params);
+    return centroid - params.height / 2;
+};
+
+/**
+ * Transverse shear stress τxy = -V·Q/(I·b) (sign follows V = dM/dx with σx = -M·y/I).
+ */
+export const calculateShearStress = (params: SimulationParams, V: number, y: number, I: number) => {
+    const { Q, b } = calculateFirstMoment(params, y);
+    return I > 0 && b > 0 ? -V * Q / (I * b) : 0;
+};
+
+/**
+ * Principal and von Mises stresses of a plane stress state.
+ */
+export const calculateStressState = (sigmaX: number, sigmaY: number, tauXY: number) => {
+    const center = (sigmaX + sigmaY) / 2;
+    const radius = Math.sqrt(Math.pow((sigmaX - sigmaY) / 2, 2) + tauXY * tauXY);
+    return {
+        sigma1: center + radius,
+        sigma2: center - radius,
+        vonMises: Math.sqrt(sigmaX * sigmaX - sigmaX * sigmaY + sigmaY * sigmaY + 3 * tauXY * tauXY)
+    };
+};
+
+/**
+ * Value of the selected stress component at a node.
+ */
+export const getNodeStress = (node: NodePoint, component: StressComponent) => {
+    switch (component) {
+        case 'tauXY': return node.tauXY;
+        case 'vonMises': return node.vonMises;
+        case 'sigma1': return node.sigma1;
+        case 'sigma2': return node.sigma2;
+        default: return node.stress;
     }
+};
+
+/**
+ * Shear rigidity κ·G·A for the Timoshenko formulation (Infinity for Euler-Bernoulli).
+ */
+export const getShearRigidity = (params: SimulationParams) => {
+    if (params.beamFormulation !== 'timoshenko') return Infinity;
+    const { shearArea } = calculateSectionProperties(params);
+    const G = getShearModulus(params);
+    return G * shearArea > 0 ? G * shearArea : Infinity;
+};
 
-    return { I, area };
+/**
+ * Solves the beam (all active loads, current supports) with the stiffness method.
+ * Mesh columns are added as solver stations so every mesh node gets exact nodal values.
+ * secondOrder includes the P-Δ effect of the axial loads.
+ */
+export const solveBeam = (params: SimulationParams, secondOrder: boolean = false): BeamSolution => {
+    const { length: L, youngsModulus: E, meshDensityX } = params;
+    const { I } = calculateSectionProperties(params);
+    const stations = Array.from({ length: meshDensityX + 1 }, (_, i) => i * (L / meshDensityX));
+
+    return solveBeamStiffness({
+        length: L,
+        EI: E * I,
+        GAs: getShearRigidity(params),
+        supports: getSupports(params),
+        loads: getActiveLoads(params),
+        stations,
+        secondOrder
+    });
 };
 
 /**
- * Calculates beam deformation and stress based on type and load position.
+ * Splits the peak deflection into bending and shear parts: the bending part is the
+ * Euler-Bernoulli deflection at the same station, the shear part the Timoshenko excess.
  */
-export const calculateBeamPhysics = (params: SimulationParams): MeshElement[] => {
+export const calculateDeflectionComponents = (params: SimulationParams, solution: BeamSolution = solveBeam(params)) => {
+    let k = 0;
+    solution.deflections.forEach((v, i) => { if (Math.abs(v) > Math.abs(solution.deflections[k])) k = i; });
+    const total = solution.deflections[k] ?? 0;
+    if (params.beamFormulation !== 'timoshenko') return { x: solution.xs[k] ?? 0, total, bending: total, shear: 0 };
+
+    // Same loads, supports and stations, so the node lists line up
+    const bending = solveBeam({ ...params, beamFormulation: 'eulerBernoulli' }).deflections[k] ?? 0;
+    return { x: solution.xs[k], total, bending, shear: total - bending };
+};
+
+/**
+ * Maps the beam solution onto the 2D mesh (plane sections remain plane).
+ */
+export const calculateBeamPhysics = (params: SimulationParams, solution: BeamSolution = solveBeam(params)): MeshElement[] => {
     const { 
         length: L, 
         height: h, 
-        force: P, 
-        youngsModulus: E, 
         meshDensityX, 
         meshDensityY, 
-        deformationScale,
-        beamType,
-        loadPosition: a 
+        deformationScale
     } = params;
 
-    // Get calculated I
-    const { I } = calculateSectionProperties(params);
-
-    // Ensure load position is within bounds
-    const safeA = Math.max(0, Math.min(a, L));
-    const b = L - safeA; 
+    // Get calculated I, A and the neutral axis height above mid-depth
+    const { I, area } = calculateSectionProperties(params);
+    const e = getNeutralAxisOffset(params);
 
     const dxStep = L / meshDensityX;
     const dyStep = h / meshDensityY;
     const scale = deformationScale || 1;
 
+    // Beam results per mesh column
+    const columns = Array.from({ length: meshDensityX + 1 }, (_, i) => sampleBeamSolution(solution, i * dxStep));
+
     const getNode = (i: number, j: number): NodePoint => {
         const xOriginal = i * dxStep;
-        // y from neutral axis (-h/2 to h/2)
+        // y from mid-depth (-h/2 to h/2), yNA from the neutral axis
         const yOriginal = (j * dyStep) - (h / 2);
+        const yNA = yOriginal - e;
         
-        let v = 0;     // Vertical deflection
-        let theta = 0; // Slope (dv/dx)
-        let M = 0;     // Bending Moment
-
-        if (beamType === 'cantilever') {
-            // --- Cantilever Beam (Fixed at x=0) ---
-            if (xOriginal <= safeA) {
-                v = (P * Math.pow(xOriginal, 2) * (3 * safeA - xOriginal)) / (6 * E * I);
-                theta = (P * xOriginal * (2 * safeA - xOriginal)) / (2 * E * I);
-                M = P * (xOriginal - safeA);
-            } else {
-                const v_a = (P * Math.pow(safeA, 3)) / (3 * E * I);
-                const theta_a = (P * Math.pow(safeA, 2)) / (2 * E * I);
-                v = v_a + theta_a * (xOriginal - safeA);
-                theta = theta_a;
-                M = 0; 
-            }
-
-        } else if (beamType === 'simplySupported') {
-            // --- Simply Supported Beam ---
-            if (xOriginal <= safeA) {
-                v = (P * b * xOriginal) / (6 * L * E * I) * (Math.pow(L, 2) - Math.pow(b, 2) - Math.pow(xOriginal, 2));
-                M = (P * b * xOriginal) / L;
-                theta = (P * b) / (6 * L * E * I) * (Math.pow(L, 2) - Math.pow(b, 2) - 3 * Math.pow(xOriginal, 2));
-            } else {
-                const xFromRight = L - xOriginal;
-                v = (P * safeA * xFromRight) / (6 * L * E * I) * (Math.pow(L, 2) - Math.pow(safeA, 2) - Math.pow(xFromRight, 2));
-                M = (P * safeA * (L - xOriginal)) / L;
-                
-                const term = (Math.pow(L, 2) - Math.pow(safeA, 2) - 3 * Math.pow(xFromRight, 2));
-                const thetaFromRight = (P * safeA) / (6 * L * E * I) * term;
-                theta = -thetaFromRight;
-            }
-        }
+        const { v, theta, M, V, N } = columns[i];
 
-        const u = -yOriginal * theta;
-        const stress = -(M * yOriginal) / I;
+        const u = -yNA * theta;
+        // Combined normal stress N/A - M·y/I
+        const stress = (area > 0 ? N / area : 0) - (M * yNA) / I;
+        const tauXY = calculateShearStress(params, V, yNA, I);
 
         return {
             id: `${i}-${j}`,
@@ -120,7 +193,10 @@ export const calculateBeamPhysics = (params: SimulationParams): MeshElement[] =>
             y: yOriginal,
             dx: xOriginal + (u * scale),
             dy: yOriginal + (v * scale),
-            stress: stress
+            stress: stress,
+            sigmaY: 0,
+            tauXY,
+            ...calculateStressState(stress, 0, tauXY)
         };
     };
 
@@ -147,21 +223,131 @@ export const calculateBeamPhysics = (params: SimulationParams): MeshElement[] =>
 };
 
 /**
- * Calculates key statistics (Max Stress, Max Deflection) from mesh elements.
+ * Maps the plane-stress FE solution onto the mesh (same grid, nodal σx/σy/τxy).
+ */
+export const calculatePlaneStressPhysics = (params: SimulationParams, fe: PlaneStressSolution): MeshElement[] => {
+    const scale = params.deformationScale || 1;
+    const { nx, ny, nodes } = fe;
+
+    const getNode = (i: number, j: number): NodePoint => {
+        const n = nodes[i * (ny + 1) + j];
+        return {
+            id: `${i}-${j}`,
+            x: n.x,
+            y: n.y,
+            dx: n.x + n.ux * scale,
+            dy: n.y + n.uy * scale,
+            stress: n.sigmaX,
+            sigmaY: n.sigmaY,
+            tauXY: n.tauXY,
+            ...calculateStressState(n.sigmaX, n.sigmaY, n.tauXY)
+        };
+    };
+
+    const elements: MeshElement[] = [];
+    for (let i = 0; i < nx; i++) {
+        for (let j = 0; j < ny; j++) {
+            const p1 = getNode(i, j);
+            const p2 = getNode(i + 1, j);
+            const p3 = getNode(i + 1, j + 1);
+            const p4 = getNode(i, j + 1);
+            elements.push({
+                id: `el-${i}-${j}`,
+                nodes: [p1, p2, p3, p4],
+                avgStress: (p1.stress + p2.stress + p3.stress + p4.stress) / 4
+            });
+        }
+    }
+    return elements;
+};
+
+/**
+ * Peak stresses and the mid-depth deflection of the plane-stress solution.
  */
-export const calculateBeamStats = (elements: MeshElement[]) => {
+export const calculatePlaneStressStats = (fe: PlaneStressSolution) => {
+    const { nx, ny, nodes } = fe;
     let maxStress = 0;
+    let maxShearStress = 0;
+    let maxVonMises = 0;
+    let maxPrincipal = 0;
+    let minPrincipal = 0;
+    nodes.forEach(n => {
+        const state = calculateStressState(n.sigmaX, n.sigmaY, n.tauXY);
+        maxStress = Math.max(maxStress, Math.abs(n.sigmaX));
+        maxShearStress = Math.max(maxShearStress, Math.abs(n.tauXY));
+        maxVonMises = Math.max(maxVonMises, state.vonMises);
+        maxPrincipal = Math.max(maxPrincipal, state.sigma1);
+        minPrincipal = Math.min(minPrincipal, state.sigma2);
+    });
+
+    let maxDeflection = 0;
+    let maxDeflectionX = 0;
+    for (let i = 0; i <= nx; i++) {
+        // Mid-depth node, or the mean of the two nodes around mid-depth
+        const lo = nodes[i * (ny + 1) + Math.floor(ny / 2)];
+        const hi = nodes[i * (ny + 1) + Math.ceil(ny / 2)];
+        const v = Math.abs((lo.uy + hi.uy) / 2);
+        if (v > maxDeflection) {
+            maxDeflection = v;
+            maxDeflectionX = lo.x;
+        }
+    }
+    return { maxStress, maxShearStress, maxVonMises, maxPrincipal, minPrincipal, maxDeflection, maxDeflectionX };
+};
+
+/**
+ * Calculates key statistics (Max Stress, Max Deflection) from the beam solution.
+ * Shear, von Mises and principal stresses are scanned over the depth at every node.
+ */
+export const calculateBeamStats = (params: SimulationParams, solution: BeamSolution = solveBeam(params)) => {
+    const { I, area, cTop, cBottom, centroid } = calculateSectionProperties(params);
+
+    let maxStress = 0; // Extreme-fibre |N/A ± M·c/I|
+    let maxMoment = 0;
+    let maxShear = 0;
     let maxDeflection = 0;
-    
-    elements.forEach(el => {
-        el.nodes.forEach(n => {
-            const stressAbs = Math.abs(n.stress);
-            if (stressAbs > maxStress) maxStress = stressAbs;
-            
-            const deflection = Math.abs(n.dy - n.y);
-            if (deflection > maxDeflection) maxDeflection = deflection;
+    let maxDeflectionX = 0;
+    let maxShearStress = 0;
+    let maxVonMises = 0;
+    let maxPrincipal = 0;
+    let minPrincipal = 0;
+
+    // Fibres scanned over the depth, both sides of every plate junction included
+    const fibres = Array.from({ length: 41 }, (_, k) => -cBottom + k * params.height / 40);
+    getWidthBreaks(getSectionShape(params)).forEach(level => {
+        const eps = params.height * 1e-9;
+        fibres.push(level - centroid - eps, level - centroid + eps);
+    });
+
+    solution.xs.forEach((x, i) => {
+        const sigmaN = area > 0 ? solution.axialForces[i] / area : 0;
+        // Shear and moment jump at concentrated loads and moments, so check the left-hand limits as well
+        const right = { V: solution.shears[i], M: solution.moments[i] };
+        const sides = solution.isStable ? [right, internalForcesAt(x, solution.loads, solution.reactions, 'left')] : [right];
+        sides.forEach(({ V, M }) => {
+            maxMoment = Math.max(maxMoment, Math.abs(M));
+            maxShear = Math.max(maxShear, Math.abs(V));
+            if (I <= 0) return;
+            maxStress = Math.max(maxStress, Math.abs(sigmaN - M * cTop / I), Math.abs(sigmaN + M * cBottom / I));
+            fibres.forEach(y => {
+                const sigmaX = sigmaN - M * y / I;
+                const tauXY = calculateShearStress(params, V, y, I);
+                const state = calculateStressState(sigmaX, 0, tauXY);
+                maxShearStress = Math.max(maxShearStress, Math.abs(tauXY));
+                maxVonMises = Math.max(maxVonMises, state.vonMises);
+                maxPrincipal = Math.max(maxPrincipal, state.sigma1);
+                minPrincipal = Math.min(minPrincipal, state.sigma2);
+            });
         });
+        const deflection = Math.abs(solution.deflections[i]);
+        if (deflection > maxDeflection) {
+            maxDeflection = deflection;
+            maxDeflectionX = x;
+        }
     });
-    
-    return { maxStress, maxDeflection };
-};
\ No newline at end of file
+
+    return {
+        maxStress, maxDeflection, maxDeflectionX, maxMoment, maxShear,
+        maxShearStress, maxVonMises, maxPrincipal, minPrincipal
+    };
+};
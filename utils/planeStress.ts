@@ -0,0 +1,257 @@
+import { SimulationParams, LoadDefinition } from '../types';
+import { getActiveLoads, getSupports } from './beamModel';
+import { calculateSectionProperties } from './physics';
+import { getSectionShape, areaAbove } from './sectionGeometry';
+import { solveBandedSPD } from './linearAlgebra';
+
+export interface PlaneStressNode {
+    x: number;
+    y: number;      // From mid-depth (-h/2 to h/2)
+    ux: number;     // m
+    uy: number;     // m, upward positive
+    sigmaX: number; // Pa
+    sigmaY: number; // Pa
+    tauXY: number;  // Pa
+}
+
+export interface PlaneStressSolution {
+    nx: number;
+    ny: number;
+    thickness: number[];     // Equivalent out-of-plane thickness per element row, bottom up (m)
+    nodes: PlaneStressNode[]; // Column-major: index i·(ny + 1) + j
+    isStable: boolean;
+}
+
+const GAUSS = 1 / Math.sqrt(3);
+const CORNERS: [number, number][] = [[-1, -1], [1, -1], [1, 1], [-1, 1]];
+
+/**
+ * Strain-displacement matrix of a rectangular bilinear quad (a × b) at (ξ, η).
+ * DOF order: u1, v1, u2, v2, u3, v3, u4, v4 (counter-clockwise from bottom-left).
+ */
+const strainDisplacement = (a: number, b: number, xi: number, eta: number): number[][] => {
+    const B = [new Array(8).fill(0), new Array(8).fill(0), new Array(8).fill(0)];
+    CORNERS.forEach(([xk, yk], k) => {
+        const dNdx = xk * (1 + eta * yk) / 4 * (2 / a);
+        const dNdy = yk * (1 + xi * xk) / 4 * (2 / b);
+        B[0][2 * k] = dNdx;
+        B[1][2 * k + 1] = dNdy;
+        B[2][2 * k] = dNdy;
+        B[2][2 * k + 1] = dNdx;
+    });
+    return B;
+};
+
+/**
+ * Plane-stress constitutive matrix.
+ */
+const elasticity = (E: number, nu: number): number[][] => {
+    const c = E / (1 - nu * nu);
+    return [
+        [c, c * nu, 0],
+        [c * nu, c, 0],
+        [0, 0, c * (1 - nu) / 2]
+    ];
+};
+
+/**
+ * Adds t·detJ·w·Bᵀ·D·B into ke.
+ */
+const addBtDB = (ke: number[][], B: number[][], D: number[][], factor: number) => {
+    for (let p = 0; p < 8; p++) {
+        for (let q = 0; q < 8; q++) {
+            let s = 0;
+            for (let r = 0; r < 3; r++) {
+                for (let c = 0; c < 3; c++) s += B[r][p] * D[r][c] * B[c][q];
+            }
+            ke[p][q] += s * factor;
+        }
+    }
+};
+
+/**
+ * Q4 element stiffness with selective reduced integration: normal terms use 2×2 Gauss
+ * points, the shear term the centre point only, which removes shear locking in bending.
+ */
+const elementStiffness = (a: number, b: number, t: number, D: number[][]): number[][] => {
+    const ke = Array.from({ length: 8 }, () => new Array(8).fill(0));
+    const detJ = a * b / 4;
+    const Dn = [[D[0][0], D[0][1], 0], [D[1][0], D[1][1], 0], [0, 0, 0]];
+    const Ds = [[0, 0, 0], [0, 0, 0], [0, 0, D[2][2]]];
+    CORNERS.forEach(([xk, yk]) => addBtDB(ke, strainDisplacement(a, b, xk * GAUSS, yk * GAUSS), Dn, t * detJ));
+    addBtDB(ke, strainDisplacement(a, b, 0, 0), Ds, t * detJ * 4);
+    return ke;
+};
+
+/**
+ * Downward intensity of a distributed load at x (N/m).
+ */
+const loadIntensity = (l: LoadDefinition, x: number) => {
+    const x1 = l.x1!, x2 = l.x2!;
+    const qa = l.type === 'U' || l.peak !== 'right' ? l.val : 0;
+    const qb = l.type === 'U' || l.peak === 'right' ? l.val : 0;
+    return qa + (qb - qa) * (x - x1) / (x2 - x1);
+};
+
+/**
+ * Out-of-plane thickness of each element row: the section width averaged over the row,
+ * scaled so the layered model keeps the exact I (a rectangle comes out exact).
+ */
+const rowThicknesses = (params: SimulationParams, ny: number, b: number) => {
+    const shape = getSectionShape(params);
+    const { I } = calculateSectionProperties(params);
+    const t = Array.from({ length: ny }, (_, j) => Math.max(0, areaAbove(shape, j * b).A - areaAbove(shape, (j + 1) * b).A) / b);
+
+    const area = t.reduce((sum, tj) => sum + tj * b, 0);
+    if (area <= 0) return t;
+    const centroid = t.reduce((sum, tj, j) => sum + tj * b * (j + 0.5) * b, 0) / area;
+    const layered = t.reduce((sum, tj, j) => sum + tj * b * (b * b / 12 + Math.pow((j + 0.5) * b - centroid, 2)), 0);
+    return layered > 0 ? t.map(tj => tj * I / layered) : t;
+};
+
+/**
+ * 2D plane-stress finite element model of the beam on the meshDensityX × meshDensityY grid.
+ * Loads act on the top edge, pin/roller supports restrain the bottom fibre and fixed
+ * supports the whole end section. Each element row gets the section width averaged over
+ * it (see rowThicknesses), so the 2D model has the real neutral axis and bending stiffness.
+ */
+export const solvePlaneStress = (params: SimulationParams): PlaneStressSolution => {
+    const { length: L, height: h, youngsModulus: E } = params;
+    const nu = params.poissonsRatio ?? 0.3;
+    const nx = Math.max(1, Math.round(params.meshDensityX));
+    const ny = Math.max(1, Math.round(params.meshDensityY));
+    const a = L / nx;
+    const b = h / ny;
+    const t = rowThicknesses(params, ny, b);
+
+    const nodeId = (i: number, j: number) => i * (ny + 1) + j;
+    const nNodes = (nx + 1) * (ny + 1);
+    const nDof = 2 * nNodes;
+    const m = 2 * (ny + 2) + 1; // Half bandwidth for column-major numbering
+    const clampX = (x: number) => Math.max(0, Math.min(L, x));
+    const column = (x: number) => Math.round(clampX(x) / a);
+
+    // 1. Assemble the banded stiffness (identical rectangles, thickness varies per row)
+    const D = elasticity(E, nu);
+    const rowStiffness = t.map(tj => elementStiffness(a, b, tj, D));
+    const K = Array.from({ length: nDof }, () => new Array(m + 1).fill(0));
+    const elementDofs = (i: number, j: number) =>
+        [nodeId(i, j), nodeId(i + 1, j), nodeId(i + 1, j + 1), nodeId(i, j + 1)].flatMap(n => [2 * n, 2 * n + 1]);
+
+    for (let i = 0; i < nx; i++) {
+        for (let j = 0; j < ny; j++) {
+            const dofs = elementDofs(i, j);
+            const ke = rowStiffness[j];
+            for (let p = 0; p < 8; p++) {
+                for (let q = 0; q < 8; q++) {
+                    if (dofs[q] >= dofs[p]) K[dofs[p]][dofs[q] - dofs[p]] += ke[p][q];
+                }
+            }
+        }
+    }
+
+    // 2. Nodal loads on the top edge (y-up)
+    const F = new Array(nDof).fill(0);
+    const top = (i: number) => 2 * nodeId(i, ny) + 1;
+    getActiveLoads(params).forEach(l => {
+        if (l.type === 'P' && l.x !== undefined) {
+            // Shared by the two nodes of the edge it falls on
+            const x = clampX(l.x);
+            const e = Math.min(nx - 1, Math.floor(x / a));
+            const s = (x - e * a) / a;
+            F[top(e)] -= l.val * (1 - s);
+            F[top(e + 1)] -= l.val * s;
+        } else if (l.type === 'M' && l.x !== undefined) {
+            // Couple of horizontal forces varying linearly over the depth: Σ(-y·Fx) = M
+            const i = column(l.x);
+            let sumY2 = 0;
+            for (let j = 0; j <= ny; j++) sumY2 += Math.pow(-h / 2 + j * b, 2);
+            for (let j = 0; j <= ny; j++) F[2 * nodeId(i, j)] -= l.val * (-h / 2 + j * b) / sumY2;
+        } else if (l.type === 'N' && l.x !== undefined) {
+            // Axial load spread uniformly over the depth (trapezoidal weights), positive towards -x
+            const i = column(l.x);
+            for (let j = 0; j <= ny; j++) F[2 * nodeId(i, j)] -= l.val * (j === 0 || j === ny ? 0.5 : 1) / ny;
+        } else if ((l.type === 'U' || l.type === 'T') && l.x1 !== undefined && l.x2 !== undefined && l.x2 > l.x1) {
+            // Consistent edge loads, 2-point Gauss on the loaded part of each top edge
+            for (let e = 0; e < nx; e++) {
+                const xa = e * a, xb = xa + a;
+                const lo = Math.max(xa, clampX(l.x1)), hi = Math.min(xb, clampX(l.x2));
+                if (hi <= lo) continue;
+                [-GAUSS, GAUSS].forEach(g => {
+                    const x = (lo + hi) / 2 + g * (hi - lo) / 2;
+                    const w = loadIntensity(l, x) * (hi - lo) / 2;
+                    F[top(e)] -= w * (xb - x) / a;
+                    F[top(e + 1)] -= w * (x - xa) / a;
+                });
+            }
+        }
+    });
+
+    // 3. Support constraints (rows/columns replaced by the identity)
+    const constrained = new Set<number>();
+    getSupports(params).forEach(s => {
+        const i = column(s.x);
+        if (s.type === 'fixed') {
+            for (let j = 0; j <= ny; j++) { constrained.add(2 * nodeId(i, j)); constrained.add(2 * nodeId(i, j) + 1); }
+        } else {
+            if (s.type === 'pin') constrained.add(2 * nodeId(i, 0));
+            constrained.add(2 * nodeId(i, 0) + 1);
+        }
+    });
+    constrained.forEach(d => {
+        for (let k = 0; k <= m; k++) K[d][k] = 0;
+        for (let k = 1; k <= m && d - k >= 0; k++) K[d - k][k] = 0;
+        K[d][0] = 1;
+        F[d] = 0;
+    });
+
+    const u = solveBandedSPD(K, F, m);
+    const disp = u || new Array(nDof).fill(0);
+
+    // 4. Nodal stresses: σx, σy at the element corners, τxy at the element centre
+    // (exact for the bilinear shear field), averaged over the elements sharing a node
+    const sums = Array.from({ length: nNodes }, () => ({ sx: 0, sy: 0, txy: 0, count: 0 }));
+    const stress = (B: number[][], ue: number[]) => D.map(row => {
+        let s = 0;
+        for (let r = 0; r < 3; r++) {
+            let strain = 0;
+            for (let p = 0; p < 8; p++) strain += B[r][p] * ue[p];
+            s += row[r] * strain;
+        }
+        return s;
+    });
+    if (u) {
+        for (let i = 0; i < nx; i++) {
+            for (let j = 0; j < ny; j++) {
+                const ue = elementDofs(i, j).map(d => disp[d]);
+                const centre = stress(strainDisplacement(a, b, 0, 0), ue);
+                [nodeId(i, j), nodeId(i + 1, j), nodeId(i + 1, j + 1), nodeId(i, j + 1)].forEach((n, k) => {
+                    const corner = stress(strainDisplacement(a, b, CORNERS[k][0], CORNERS[k][1]), ue);
+                    sums[n].sx += corner[0];
+                    sums[n].sy += corner[1];
+                    sums[n].txy += centre[2];
+                    sums[n].count += 1;
+                });
+            }
+        }
+    }
+
+    const nodes: PlaneStressNode[] = [];
+    for (let i = 0; i <= nx; i++) {
+        for (let j = 0; j <= ny; j++) {
+            const n = nodeId(i, j);
+            const c = Math.max(1, sums[n].count);
+            nodes.push({
+                x: i * a,
+                y: -h / 2 + j * b,
+                ux: disp[2 * n],
+                uy: disp[2 * n + 1],
+                sigmaX: sums[n].sx / c,
+                sigmaY: sums[n].sy / c,
+                tauXY: sums[n].txy / c
+            });
+        }
+    }
+
+    return { nx, ny, thickness: t, nodes, isStable: u !== null };
+};
@@ -0,0 +1,412 @@
+import { SimulationParams, SectionPoint, SectionPolygon } from '../types';
+
+/**
+ * Cross-section built from rectangles, discs and polygons (sign -1 cuts a hole).
+ * Coordinates: x from the section centre line, y up from the bottom fibre (0..depth).
+ */
+export type SectionPart =
+    | { kind: 'rect'; x0: number; x1: number; y0: number; y1: number; sign: 1 | -1 }
+    | { kind: 'disc'; xc: number; yc: number; r: number; sign: 1 | -1 }
+    | { kind: 'polygon'; points: SectionPoint[]; sign: 1 | -1 };
+
+export interface SectionShape {
+    depth: number;
+    parts: SectionPart[];
+    shearArea?: number; // κ·A for the Timoshenko formulation (energy method when omitted)
+    origin?: SectionPoint; // Input coordinates of the section origin (custom outlines)
+    torsionConstant?: number; // J (m⁴), unknown for custom outlines
+    warpingConstant?: number; // Cw (m⁶) of I-shapes and channels
+    error?: string; // Why the dimensions were replaced by the solid bounding rectangle
+}
+
+const rect = (x0: number, x1: number, y0: number, y1: number, sign: 1 | -1 = 1): SectionPart =>
+    ({ kind: 'rect', x0, x1, y0, y1, sign });
+
+const disc = (xc: number, yc: number, r: number, sign: 1 | -1 = 1): SectionPart =>
+    ({ kind: 'disc', xc, yc, r, sign });
+
+/**
+ * Builds the section of the current parameters. Invalid plate thicknesses fall back
+ * to the solid bounding rectangle.
+ */
+export const getSectionShape = (params: SimulationParams): SectionShape => {
+    const {
+        height: H,
+        sectionType,
+        sectionWidth: B,
+        flangeWidth: Bf,
+        flangeThickness: tf,
+        webThickness: tw
+    } = params;
+    const t = params.wallThickness;
+    const nu = params.poissonsRatio ?? 0.3;
+    // Cowper shear coefficients
+    const kRect = 10 * (1 + nu) / (12 + 11 * nu);
+    const kDisc = 6 * (1 + nu) / (7 + 6 * nu);
+
+    // Saint-Venant torsion of a solid rectangle a × b (a ≥ b)
+    const rectTorsion = (w: number, h: number) => {
+        const a = Math.max(w, h), b = Math.min(w, h);
+        return a > 0 ? a * b * b * b * (1 / 3 - 0.21 * (b / a) * (1 - Math.pow(b / a, 4) / 12)) : 0;
+    };
+
+    const solid = (width: number, error?: string): SectionShape => ({
+        depth: H,
+        parts: [rect(-width / 2, width / 2, 0, H)],
+        shearArea: width * H * kRect,
+        torsionConstant: rectTorsion(width, H),
+        error
+    });
+
+    switch (sectionType) {
+        case 'circular': {
+            const R = H / 2;
+            return { depth: H, parts: [disc(0, R, R)], shearArea: Math.PI * R * R * kDisc, torsionConstant: Math.PI * Math.pow(R, 4) / 2 };
+        }
+        case 'tube': {
+            const R = H / 2;
+            if (!(t > 0 && t < R)) {
+                return {
+                    depth: H, parts: [disc(0, R, R)], shearArea: Math.PI * R * R * kDisc,
+                    torsionConstant: Math.PI * Math.pow(R, 4) / 2,
+                    error: '壁厚 t 須介於 0 與 D/2 之間'
+                };
+            }
+            // Cowper: κ = 6(1+ν)(1+m²)² / [(7+6ν)(1+m²)² + (20+12ν)m²], m = r/R
+            const m2 = Math.pow((R - t) / R, 2);
+            const k = 6 * (1 + nu) * Math.pow(1 + m2, 2) / ((7 + 6 * nu) * Math.pow(1 + m2, 2) + (20 + 12 * nu) * m2);
+            return {
+                depth: H,
+                parts: [disc(0, R, R), disc(0, R, R - t, -1)],
+                shearArea: Math.PI * (R * R - (R - t) * (R - t)) * k,
+                torsionConstant: Math.PI * (Math.pow(R, 4) - Math.pow(R - t, 4)) / 2
+            };
+        }
+        case 'ibeam': {
+            if (!(H - 2 * tf > 0 && Bf - tw > 0 && tw > 0 && tf > 0)) return solid(Bf, '須滿足 0 < tw < B 且 0 < 2·tf < H');
+            const h0 = H - tf; // Distance between flange centrelines
+            return {
+                depth: H,
+                parts: [
+                    rect(-Bf / 2, Bf / 2, 0, tf),
+                    rect(-tw / 2, tw / 2, tf, H - tf),
+                    rect(-Bf / 2, Bf / 2, H - tf, H)
+                ],
+                // The web carries the shear: A_w = H·tw
+                shearArea: H * tw,
+                // Open thin-walled section: J = Σ b·t³/3, Cw = tf·B³·h0²/24
+                torsionConstant: (2 * Bf * Math.pow(tf, 3) + (H - 2 * tf) * Math.pow(tw, 3)) / 3,
+                warpingConstant: tf * Math.pow(Bf, 3) * h0 * h0 / 24
+            };
+        }
+        case 'box': {
+            if (!(t > 0 && 2 * t < B && 2 * t < H)) return solid(B, '壁厚須滿足 0 < 2·t < min(B, H)');
+            return {
+                depth: H,
+                parts: [rect(-B / 2, B / 2, 0, H), rect(-B / 2 + t, B / 2 - t, t, H - t, -1)],
+                // Two webs: A_w = 2·H·t
+                shearArea: 2 * H * t,
+                // Closed thin-walled section (Bredt): J = 4·Am²·t / perimeter
+                torsionConstant: 2 * t * Math.pow(B - t, 2) * Math.pow(H - t, 2) / (B + H - 2 * t)
+            };
+        }
+        case 'tee': {
+            if (!(H - tf > 0 && Bf - tw > 0 && tw > 0 && tf > 0)) return solid(Bf, '須滿足 0 < tw < B 且 0 < tf < H');
+            return {
+                depth: H,
+                parts: [rect(-tw / 2, tw / 2, 0, H - tf), rect(-Bf / 2, Bf / 2, H - tf, H)],
+                shearArea: H * tw,
+                torsionConstant: (Bf * Math.pow(tf, 3) + (H - tf) * Math.pow(tw, 3)) / 3
+            };
+        }
+        case 'channel': {
+            // Web on the left, flanges open to the right
+            if (!(H - 2 * tf > 0 && Bf - tw > 0 && tw > 0 && tf > 0)) return solid(Bf, '須滿足 0 < tw < B 且 0 < 2·tf < H');
+            const xw = -Bf / 2 + tw;
+            // Centreline dimensions for the warping constant
+            const b = Bf - tw / 2, h0 = H - tf;
+            return {
+                depth: H,
+                parts: [
+                    rect(-Bf / 2, xw, 0, H),
+                    rect(xw, Bf / 2, 0, tf),
+                    rect(xw, Bf / 2, H - tf, H)
+                ],
+                shearArea: H * tw,
+                torsionConstant: (2 * Bf * Math.pow(tf, 3) + (H - 2 * tf) * Math.pow(tw, 3)) / 3,
+                warpingConstant: tf * Math.pow(b, 3) * h0 * h0 / 12 * (3 * b * tf + 2 * h0 * tw) / (6 * b * tf + h0 * tw)
+            };
+        }
+        case 'angle': {
+            // Vertical leg H and horizontal leg Bf, both of thickness tf, heel at the bottom left
+            if (!(H - tf > 0 && Bf - tf > 0 && tf > 0)) return solid(Bf, '肢厚須滿足 0 < t < min(B, H)');
+            const xv = -Bf / 2 + tf;
+            return {
+                depth: H,
+                parts: [rect(-Bf / 2, xv, 0, H), rect(xv, Bf / 2, 0, tf)],
+                shearArea: H * tf,
+                torsionConstant: (H + Bf - tf) * Math.pow(tf, 3) / 3
+            };
+        }
+        case 'custom':
+            return buildCustomShape(params.customSection || []) ?? solid(B, '自訂截面沒有有效的外框');
+        default:
+            return solid(B, B > 0 && H > 0 ? undefined : '寬度與高度須大於 0');
+    }
+};
+
+/**
+ * Area integrals of a closed polygon about the origin by Green's theorem
+ * (positive for counter-clockwise vertex order): A, ∫y dA, ∫x dA, ∫y² dA, ∫x² dA, ∫xy dA.
+ */
+const polygonIntegrals = (points: SectionPoint[]) => {
+    let A = 0, Sx = 0, Sy = 0, Ixx = 0, Iyy = 0, Ixy = 0;
+    points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length];
+        const cross = a.x * b.y - b.x * a.y;
+        A += cross / 2;
+        Sx += (a.y + b.y) * cross / 6;
+        Sy += (a.x + b.x) * cross / 6;
+        Ixx += (a.y * a.y + a.y * b.y + b.y * b.y) * cross / 12;
+        Iyy += (a.x * a.x + a.x * b.x + b.x * b.x) * cross / 12;
+        Ixy += (a.x * b.y + 2 * a.x * a.y + 2 * b.x * b.y + b.x * a.y) * cross / 24;
+    });
+    // Clockwise outlines give the same values with the opposite sign
+    const s = A < 0 ? -1 : 1;
+    return { A: s * A, Sx: s * Sx, Sy: s * Sy, Ixx: s * Ixx, Iyy: s * Iyy, Ixy: s * Ixy };
+};
+
+// Part of a polygon above level y (Sutherland-Hodgman clip against one edge)
+const clipAbove = (points: SectionPoint[], y: number) => {
+    const out: SectionPoint[] = [];
+    points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length];
+        const aIn = a.y >= y, bIn = b.y >= y;
+        if (aIn) out.push(a);
+        if (aIn !== bIn) out.push({ x: a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y), y });
+    });
+    return out;
+};
+
+/**
+ * Shape of the 'custom' section: polygon outlines minus holes, shifted so the bottom
+ * fibre is at y = 0 and the bounding box is centred. Null when there is no valid outline.
+ */
+export const buildCustomShape = (polygons: SectionPolygon[]): SectionShape | null => {
+    const valid = polygons.filter(p => p.points.length >= 3 && polygonIntegrals(p.points).A > 0);
+    const outlines = valid.filter(p => !p.isHole);
+    if (outlines.length === 0) return null;
+
+    const all = outlines.flatMap(p => p.points);
+    const minX = Math.min(...all.map(q => q.x)), maxX = Math.max(...all.map(q => q.x));
+    const minY = Math.min(...all.map(q => q.y)), maxY = Math.max(...all.map(q => q.y));
+    const dx = (minX + maxX) / 2;
+
+    if (!(maxY > minY)) return null;
+    return {
+        depth: maxY - minY,
+        origin: { x: dx, y: minY },
+        parts: valid.map(p => ({
+            kind: 'polygon' as const,
+            points: p.points.map(q => ({ x: q.x - dx, y: q.y - minY })),
+            sign: p.isHole ? -1 as const : 1 as const
+        }))
+    };
+};
+
+/**
+ * Area and first moment (about the bottom fibre) of the part lying above level y.
+ */
+export const partAbove = (p: SectionPart, y: number) => {
+    if (p.kind === 'rect') {
+        const lo = Math.max(p.y0, Math.min(p.y1, y));
+        const b = p.x1 - p.x0;
+        return { A: b * (p.y1 - lo), S: b * (p.y1 * p.y1 - lo * lo) / 2 };
+    }
+    if (p.kind === 'polygon') {
+        const clipped = clipAbove(p.points, y);
+        if (clipped.length < 3) return { A: 0, S: 0 };
+        const { A, Sx } = polygonIntegrals(clipped);
+        return { A, S: Sx };
+    }
+    const d = Math.max(-p.r, Math.min(p.r, y - p.yc));
+    const s = Math.sqrt(p.r * p.r - d * d);
+    // Circular segment beyond the chord at distance d from the centre
+    const A = p.r * p.r * Math.acos(d / p.r) - d * s;
+    return { A, S: A * p.yc + 2 * s * s * s / 3 };
+};
+
+/**
+ * Width of the part cut by the horizontal line at level y.
+ */
+export const partWidth = (p: SectionPart, y: number) => {
+    // Half-open so a plate junction is not counted twice
+    if (p.kind === 'rect') return y >= p.y0 && y < p.y1 ? p.x1 - p.x0 : 0;
+    if (p.kind === 'polygon') {
+        // Crossings of the line with the edges, paired from left to right
+        const xs: number[] = [];
+        p.points.forEach((a, i) => {
+            const b = p.points[(i + 1) % p.points.length];
+            if ((a.y <= y && b.y > y) || (b.y <= y && a.y > y)) xs.push(a.x + (y - a.y) * (b.x - a.x) / (b.y - a.y));
+        });
+        xs.sort((a, b) => a - b);
+        let width = 0;
+        for (let k = 0; k + 1 < xs.length; k += 2) width += xs[k + 1] - xs[k];
+        return width;
+    }
+    const d = y - p.yc;
+    return Math.abs(d) < p.r ? 2 * Math.sqrt(p.r * p.r - d * d) : 0;
+};
+
+/**
+ * Area, centroid and second moments about the part's own centroidal axes
+ * (Ix about the horizontal axis, Iy about the vertical axis).
+ */
+export const partProperties = (p: SectionPart) => {
+    if (p.kind === 'rect') {
+        const b = p.x1 - p.x0, h = p.y1 - p.y0;
+        return { A: b * h, xc: (p.x0 + p.x1) / 2, yc: (p.y0 + p.y1) / 2, Ix: b * h * h * h / 12, Iy: h * b * b * b / 12, Ixy: 0 };
+    }
+    if (p.kind === 'polygon') {
+        const g = polygonIntegrals(p.points);
+        if (g.A <= 0) return { A: 0, xc: 0, yc: 0, Ix: 0, Iy: 0, Ixy: 0 };
+        const xc = g.Sy / g.A, yc = g.Sx / g.A;
+        return { A: g.A, xc, yc, Ix: g.Ixx - g.A * yc * yc, Iy: g.Iyy - g.A * xc * xc, Ixy: g.Ixy - g.A * xc * yc };
+    }
+    const I = Math.PI * Math.pow(p.r, 4) / 4;
+    return { A: Math.PI * p.r * p.r, xc: p.xc, yc: p.yc, Ix: I, Iy: I, Ixy: 0 };
+};
+
+/**
+ * Total area and first moment (about the bottom fibre) of the section above level y.
+ */
+export const areaAbove = (shape: SectionShape, y: number) =>
+    shape.parts.reduce((sum, p) => {
+        const { A, S } = partAbove(p, y);
+        return { A: sum.A + p.sign * A, S: sum.S + p.sign * S };
+    }, { A: 0, S: 0 });
+
+/**
+ * First moment Q (about the centroidal axis at height `centroid`) of the area above
+ * level y, and the section width b there.
+ */
+export const firstMomentAbove = (shape: SectionShape, centroid: number, y: number) => {
+    const level = Math.max(0, Math.min(shape.depth, y));
+    const { A, S } = areaAbove(shape, level);
+    const b = shape.parts.reduce((sum, p) => sum + p.sign * partWidth(p, level), 0);
+    // Q is the same from either side of the fibre
+    return { Q: Math.abs(S - centroid * A), b };
+};
+
+/**
+ * Centroid height of the section above the bottom fibre.
+ */
+export const sectionCentroid = (shape: SectionShape) => {
+    let area = 0;
+    let firstMoment = 0;
+    shape.parts.forEach(p => {
+        const { A, yc } = partProperties(p);
+        area += p.sign * A;
+        firstMoment += p.sign * A * yc;
+    });
+    return area > 0 ? firstMoment / area : shape.depth / 2;
+};
+
+/**
+ * Geometric properties of a section: area, centroid, centroidal and principal second
+ * moments, elastic and plastic moduli about the horizontal axis, radii of gyration.
+ */
+export const analyzeSection = (shape: SectionShape) => {
+    const props = shape.parts.map(p => ({ sign: p.sign, ...partProperties(p) }));
+    const area = props.reduce((sum, p) => sum + p.sign * p.A, 0);
+    const xc = area > 0 ? props.reduce((sum, p) => sum + p.sign * p.A * p.xc, 0) / area : 0;
+    const yc = area > 0 ? props.reduce((sum, p) => sum + p.sign * p.A * p.yc, 0) / area : shape.depth / 2;
+
+    // Parallel axis theorem
+    let Ix = 0, Iy = 0, Ixy = 0;
+    props.forEach(p => {
+        Ix += p.sign * (p.Ix + p.A * Math.pow(p.yc - yc, 2));
+        Iy += p.sign * (p.Iy + p.A * Math.pow(p.xc - xc, 2));
+        Ixy += p.sign * (p.Ixy + p.A * (p.xc - xc) * (p.yc - yc));
+    });
+
+    // Principal axes: tan 2θ = -2·Ixy / (Ix - Iy), θ of the major axis from x
+    const mean = (Ix + Iy) / 2;
+    const radius = Math.sqrt(Math.pow((Ix - Iy) / 2, 2) + Ixy * Ixy);
+    const principalAngle = Math.atan2(-2 * Ixy, Ix - Iy) / 2;
+
+    // Plastic neutral axis splits the area in half (bisection on the level)
+    let lo = 0, hi = shape.depth;
+    for (let k = 0; k < 60; k++) {
+        const mid = (lo + hi) / 2;
+        if (areaAbove(shape, mid).A > area / 2) lo = mid; else hi = mid;
+    }
+    const yp = (lo + hi) / 2;
+    const above = areaAbove(shape, yp);
+    const total = areaAbove(shape, 0);
+    const plasticModulus = (above.S - yp * above.A) + (yp * (total.A - above.A) - (total.S - above.S));
+
+    const cTop = shape.depth - yc;
+    const cBottom = yc;
+    return {
+        area, xc, yc, Ix, Iy, Ixy,
+        I1: mean + radius,
+        I2: mean - radius,
+        principalAngle,
+        cTop,
+        cBottom,
+        sectionModulusTop: cTop > 0 ? Ix / cTop : 0,
+        sectionModulusBottom: cBottom > 0 ? Ix / cBottom : 0,
+        plasticNeutralAxis: yp,
+        plasticModulus,
+        rx: area > 0 ? Math.sqrt(Ix / area) : 0,
+        ry: area > 0 ? Math.sqrt(Iy / area) : 0
+    };
+};
+
+/**
+ * Shear area κ·A from the shear strain energy: A_s = I² / ∫ Q²/b dy (rectangle: 5/6·A).
+ */
+export const energyShearArea = (shape: SectionShape, steps = 400) => {
+    const { Ix, yc } = analyzeSection(shape);
+    const dy = shape.depth / steps;
+    let integral = 0;
+    for (let k = 0; k < steps; k++) {
+        const { Q, b } = firstMomentAbove(shape, yc, (k + 0.5) * dy);
+        if (b > 1e-12) integral += Q * Q / b * dy;
+    }
+    return integral > 0 ? Ix * Ix / integral : 0;
+};
+
+/**
+ * Levels where the width b(y) jumps (plate junctions), used to scan both sides.
+ */
+export const getWidthBreaks = (shape: SectionShape) => {
+    const levels = new Set<number>();
+    shape.parts.forEach(p => {
+        const ys = p.kind === 'rect' ? [p.y0, p.y1] : p.kind === 'polygon' ? p.points.map(q => q.y) : [];
+        ys.forEach(y => { if (y > 0 && y < shape.depth) levels.add(y); });
+    });
+    return Array.from(levels).sort((a, b) => a - b);
+};
+
+/**
+ * Half width of the section's bounding box about the centre line.
+ */
+export const getSectionHalfWidth = (shape: SectionShape) => Math.max(...shape.parts.map(p => {
+    if (p.kind === 'rect') return Math.max(-p.x0, p.x1);
+    if (p.kind === 'polygon') return Math.max(...p.points.map(q => Math.abs(q.x)));
+    return Math.abs(p.xc) + p.r;
+}));
+
+/**
+ * SVG path of the section, one sub-path per part (draw with fill-rule evenodd so holes
+ * are cut out). sx/sy map section coordinates to the drawing, `scale` is m → px.
+ */
+export const getSectionPath = (shape: SectionShape, sx: (x: number) => number, sy: (y: number) => number, scale: number) =>
+    shape.parts.map(p => {
+        if (p.kind === 'rect') return `M ${sx(p.x0)} ${sy(p.y1)} H ${sx(p.x1)} V ${sy(p.y0)} H ${sx(p.x0)} Z`;
+        if (p.kind === 'polygon') return `M ${p.points.map(q => `${sx(q.x)} ${sy(q.y)}`).join(' L ')} Z`;
+        const r = p.r * scale;
+        return `M ${sx(p.xc - p.r)} ${sy(p.yc)} a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0 Z`;
+    }).join(' ');
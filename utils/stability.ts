@@ -0,0 +1,121 @@
+import { SimulationParams } from '../types';
+import { elementGeometricStiffness, sampleBeamSolution } from './beamSolver';
+import { assembleDynamicSystem } from './modalAnalysis';
+import { solveBeam, calculateSectionProperties } from './physics';
+import { choleskyLower, forwardSubstitute, symmetricEigen } from './linearAlgebra';
+
+/**
+ * Linear buckling (K·φ = λ·Kg·φ with the same beam elements and supports as the modal analysis)
+ * and the second-order P-Δ response of the axial loads.
+ */
+
+/**
+ * Smallest load factor λ at which the compression c(x) (positive = compression, N) buckles the beam.
+ * Infinity when nothing is in compression, 0 when the supports form a mechanism.
+ */
+const bucklingFactor = (params: SimulationParams, compression: (x: number) => number, extraNodes: number[] = []): number => {
+    const system = assembleDynamicSystem(params, extraNodes);
+    if (!system) return 0;
+    const { xs, free, Kff } = system;
+    const index = new Map(free.map((dof, i) => [dof, i]));
+
+    const Kg = Kff.map(row => row.map(() => 0));
+    for (let e = 0; e < xs.length - 1; e++) {
+        const h = xs[e + 1] - xs[e];
+        const c = compression(xs[e] + h / 2);
+        if (c === 0) continue;
+        const kg = elementGeometricStiffness(h);
+        const dofs = [2 * e, 2 * e + 1, 2 * e + 2, 2 * e + 3].map(d => index.get(d));
+        for (let a = 0; a < 4; a++) {
+            for (let b = 0; b < 4; b++) {
+                const i = dofs[a], j = dofs[b];
+                if (i !== undefined && j !== undefined) Kg[i][j] += c * kg[a][b];
+            }
+        }
+    }
+
+    // λ = 1/μ with μ the largest eigenvalue of L⁻¹·Kg·L⁻ᵀ (K = L·Lᵀ)
+    const L = choleskyLower(Kff);
+    if (!L) return 0;
+    const B = Kg.map(col => forwardSubstitute(L, col));
+    const C = free.map((_, i) => forwardSubstitute(L, B.map(col => col[i])));
+    const { values } = symmetricEigen(C.map((row, i) => row.map((c, j) => 0.5 * (c + C[j][i]))));
+    const mu = Math.max(0, ...values);
+    return mu > 0 ? 1 / mu : Infinity;
+};
+
+export interface StabilityResult {
+    Pcr: number;                   // Critical uniform compression for the current supports (N)
+    effectiveLengthFactor: number; // K = Le / L with Le = π·√(EI/Pcr)
+    maxCompression: number;        // Largest axial compression from the loads (N, 0 without)
+    maxTension: number;
+    alphaCr: number;               // Load factor to buckling under the actual axial forces
+    B1: number;                    // Amplification 1/(1 - P/Pcr) (AISC B1 with Cm = 1)
+    amplification: number;         // max |M| second order / first order
+    xs: number[];
+    M1: number[];                  // First-order moment (N·m)
+    M2: number[];                  // Second-order moment (N·m)
+    v1: number[];                  // Deflections (m)
+    v2: number[];
+    N: number[];                   // Axial force (N), tension positive
+    sigmaMax: number;              // Extreme-fibre N/A ± M·c/I with the second-order moments (Pa)
+    sigmaMin: number;
+    isBuckled: boolean;            // α_cr ≤ 1: the P-Δ results are not valid
+}
+
+/**
+ * Euler load for the current boundary conditions, α_cr and the P-Δ moments of the active loads.
+ */
+export const calculateStability = (params: SimulationParams, n: number = 200): StabilityResult => {
+    const L = params.length;
+    const { I, area, cTop, cBottom } = calculateSectionProperties(params);
+    const EI = params.youngsModulus * I;
+
+    const first = solveBeam(params);
+    const maxCompression = Math.max(0, ...first.axialForces.map(N => -N));
+    const maxTension = Math.max(0, ...first.axialForces);
+
+    const Pcr = bucklingFactor(params, () => 1);
+    const alphaCr = maxCompression > 0
+        ? bucklingFactor(params, x => -sampleBeamSolution(first, x).N, first.loads.filter(l => l.type === 'N').map(l => l.x ?? 0))
+        : Infinity;
+    const isBuckled = alphaCr <= 1;
+    const second = maxCompression > 0 && !isBuckled ? solveBeam(params, true) : first;
+
+    const xs = [...new Set([...Array.from({ length: n + 1 }, (_, i) => i * L / n), ...first.xs])].sort((a, b) => a - b);
+    const s1 = xs.map(x => sampleBeamSolution(first, x));
+    const s2 = xs.map(x => sampleBeamSolution(second, x));
+    const maxAbs = (values: number[]) => Math.max(0, ...values.map(Math.abs));
+    const M1 = s1.map(s => s.M);
+    const M2 = s2.map(s => s.M);
+
+    let sigmaMax = 0;
+    let sigmaMin = 0;
+    if (I > 0 && area > 0) {
+        s2.forEach(({ M, N }) => {
+            [N / area - M * cTop / I, N / area + M * cBottom / I].forEach(sigma => {
+                sigmaMax = Math.max(sigmaMax, sigma);
+                sigmaMin = Math.min(sigmaMin, sigma);
+            });
+        });
+    }
+
+    return {
+        Pcr,
+        effectiveLengthFactor: Pcr > 0 && Number.isFinite(Pcr) && L > 0 ? Math.PI * Math.sqrt(EI / Pcr) / L : Infinity,
+        maxCompression,
+        maxTension,
+        alphaCr,
+        B1: maxCompression === 0 ? 1 : maxCompression < Pcr ? 1 / (1 - maxCompression / Pcr) : Infinity,
+        amplification: maxAbs(M1) > 0 ? maxAbs(M2) / maxAbs(M1) : 1,
+        xs,
+        M1,
+        M2,
+        v1: s1.map(s => s.v),
+        v2: s2.map(s => s.v),
+        N: s1.map(s => s.N),
+        sigmaMax,
+        sigmaMin,
+        isBuckled
+    };
+};
@@ -0,0 +1,171 @@
+import { SimulationParams, SectionType } from '../types';
+
+/**
+ * Catalog of standard rolled steel shapes (AISC W/C/HSS, JIS G 3192 / CNS 1490 H-beams).
+ * Dimensions are stored in SI (m); the tabulated properties include fillets and corner
+ * radii, so they differ slightly from the plate model used for stresses.
+ */
+
+export type SteelShapeFamily = 'W' | 'C' | 'HSS' | 'H';
+
+export interface SteelShape {
+    designation: string;
+    family: SteelShapeFamily;
+    standard: 'AISC' | 'JIS/CNS';
+    sectionType: SectionType;
+    depth: number;          // d or outside diameter (m)
+    width: number;          // bf or B (m)
+    flangeThickness: number; // tf (m)
+    webThickness: number;    // tw (m)
+    wallThickness: number;   // HSS design wall thickness (m)
+    area: number;           // A (m²)
+    Ix: number;             // m⁴
+    Sx: number;             // Elastic section modulus (m³)
+    Zx: number;             // Plastic section modulus (m³)
+    mass: number;           // kg/m
+}
+
+const IN = 0.0254;
+const LB_PER_FT = 1.48816; // kg/m
+
+// AISC W and C shapes: [name, d, bf, tf, tw (in), A (in²), Ix (in⁴), Sx, Zx (in³), weight (lb/ft)]
+type AiscRow = [string, number, number, number, number, number, number, number, number, number];
+
+const fromAisc = (family: 'W' | 'C', sectionType: SectionType) =>
+    ([designation, d, bf, tf, tw, A, Ix, Sx, Zx, w]: AiscRow): SteelShape => ({
+        designation, family, standard: 'AISC', sectionType,
+        depth: d * IN, width: bf * IN, flangeThickness: tf * IN, webThickness: tw * IN, wallThickness: 0,
+        area: A * IN ** 2, Ix: Ix * IN ** 4, Sx: Sx * IN ** 3, Zx: Zx * IN ** 3, mass: w * LB_PER_FT
+    });
+
+const W_SHAPES: AiscRow[] = [
+    ['W8x31', 8.00, 8.00, 0.435, 0.285, 9.13, 110, 27.5, 30.4, 31],
+    ['W10x33', 9.73, 7.96, 0.435, 0.290, 9.71, 171, 35.0, 38.8, 33],
+    ['W12x26', 12.2, 6.49, 0.380, 0.230, 7.65, 204, 33.4, 37.2, 26],
+    ['W12x50', 12.2, 8.08, 0.640, 0.370, 14.6, 391, 64.2, 71.9, 50],
+    ['W14x22', 13.7, 5.00, 0.335, 0.230, 6.49, 199, 29.0, 33.2, 22],
+    ['W14x90', 14.0, 14.5, 0.710, 0.440, 26.5, 999, 143, 157, 90],
+    ['W16x26', 15.7, 5.50, 0.345, 0.250, 7.68, 301, 38.4, 44.2, 26],
+    ['W18x35', 17.7, 6.00, 0.425, 0.300, 10.3, 510, 57.6, 66.5, 35],
+    ['W21x44', 20.7, 6.50, 0.450, 0.350, 13.0, 843, 81.6, 95.4, 44],
+    ['W24x55', 23.6, 7.01, 0.505, 0.395, 16.2, 1350, 114, 134, 55],
+    ['W24x76', 23.9, 8.99, 0.680, 0.440, 22.4, 2100, 176, 200, 76],
+    ['W27x94', 26.9, 10.0, 0.745, 0.490, 27.6, 3270, 243, 278, 94],
+    ['W30x99', 29.7, 10.5, 0.670, 0.520, 29.1, 3990, 269, 312, 99],
+    ['W36x135', 35.6, 12.0, 0.790, 0.600, 39.7, 7800, 439, 509, 135]
+];
+
+// Channel flanges are sloped; tf is the average thickness
+const C_SHAPES: AiscRow[] = [
+    ['C8x11.5', 8.00, 2.26, 0.390, 0.220, 3.37, 32.5, 8.14, 9.63, 11.5],
+    ['C10x15.3', 10.0, 2.60, 0.436, 0.240, 4.48, 67.3, 13.5, 15.8, 15.3],
+    ['C12x20.7', 12.0, 2.94, 0.501, 0.282, 6.08, 129, 21.5, 25.6, 20.7],
+    ['C15x33.9', 15.0, 3.40, 0.650, 0.400, 9.96, 315, 42.0, 50.8, 33.9]
+];
+
+// AISC HSS: [name, H (or OD), B (0 for round), t design (in), A, Ix, Sx, Zx, weight]
+type HssRow = [string, number, number, number, number, number, number, number, number];
+
+const HSS_SHAPES: HssRow[] = [
+    ['HSS6x6x1/4', 6, 6, 0.233, 5.24, 28.6, 9.54, 11.2, 19.02],
+    ['HSS8x4x1/4', 8, 4, 0.233, 5.24, 42.5, 10.6, 13.4, 19.02],
+    ['HSS10x6x3/8', 10, 6, 0.349, 10.4, 137, 27.4, 33.8, 35.24],
+    ['HSS12x8x1/2', 12, 8, 0.465, 17.2, 333, 55.6, 68.1, 58.10],
+    ['HSS6.625x0.280', 6.625, 0, 0.260, 5.20, 26.0, 7.85, 10.5, 19.02],
+    ['HSS10.750x0.500', 10.75, 0, 0.465, 15.0, 199, 37.0, 49.2, 54.74]
+];
+
+const fromHss = ([designation, H, B, t, A, Ix, Sx, Zx, w]: HssRow): SteelShape => ({
+    designation, family: 'HSS', standard: 'AISC', sectionType: B > 0 ? 'box' : 'tube',
+    depth: H * IN, width: (B || H) * IN, flangeThickness: 0, webThickness: 0, wallThickness: t * IN,
+    area: A * IN ** 2, Ix: Ix * IN ** 4, Sx: Sx * IN ** 3, Zx: Zx * IN ** 3, mass: w * LB_PER_FT
+});
+
+// JIS/CNS H-beams: [H, B, t1, t2 (mm), A (cm²), Ix (cm⁴), Sx (cm³), mass (kg/m)]
+type JisRow = [number, number, number, number, number, number, number, number];
+
+const H_SHAPES: JisRow[] = [
+    [100, 100, 6, 8, 21.59, 378, 75.6, 16.9],
+    [150, 150, 7, 10, 39.65, 1620, 216, 31.1],
+    [200, 100, 5.5, 8, 26.67, 1810, 181, 20.9],
+    [200, 200, 8, 12, 63.53, 4720, 472, 49.9],
+    [250, 125, 6, 9, 36.97, 3960, 317, 29.0],
+    [250, 250, 9, 14, 91.43, 10700, 860, 71.8],
+    [300, 150, 6.5, 9, 46.78, 7210, 481, 36.7],
+    [300, 300, 10, 15, 118.5, 20200, 1350, 93.0],
+    [350, 175, 7, 11, 62.91, 13500, 771, 49.4],
+    [400, 200, 8, 13, 83.37, 23500, 1170, 65.4],
+    [400, 400, 13, 21, 218.7, 66600, 3330, 172],
+    [450, 200, 9, 14, 95.43, 32900, 1460, 74.9],
+    [500, 200, 10, 16, 112.2, 46800, 1870, 88.2],
+    [600, 200, 11, 17, 131.7, 75600, 2520, 103]
+];
+
+const fromJis = ([H, B, t1, t2, A, Ix, Sx, mass]: JisRow): SteelShape => {
+    const mm = 0.001, cm = 0.01;
+    const d = H * mm, bf = B * mm, tf = t2 * mm, tw = t1 * mm;
+    return {
+        designation: `H${H}x${B}x${t1}x${t2}`, family: 'H', standard: 'JIS/CNS', sectionType: 'ibeam',
+        depth: d, width: bf, flangeThickness: tf, webThickness: tw, wallThickness: 0,
+        area: A * cm ** 2, Ix: Ix * cm ** 4, Sx: Sx * cm ** 3,
+        // Zx is not tabulated in JIS G 3192: plate formula, fillets neglected
+        Zx: bf * tf * (d - tf) + tw * Math.pow(d - 2 * tf, 2) / 4,
+        mass
+    };
+};
+
+export const STEEL_SHAPES: SteelShape[] = [
+    ...W_SHAPES.map(fromAisc('W', 'ibeam')),
+    ...H_SHAPES.map(fromJis),
+    ...C_SHAPES.map(fromAisc('C', 'channel')),
+    ...HSS_SHAPES.map(fromHss)
+];
+
+/**
+ * Shapes whose designation contains every term of the query (case and 'x'/'×' insensitive).
+ */
+export const searchSteelShapes = (query: string, family?: SteelShapeFamily) => {
+    const norm = (s: string) => s.toLowerCase().replace(/[×*]/g, 'x').replace(/\s+/g, ' ').trim();
+    const terms = norm(query).split(' ').filter(Boolean);
+    return STEEL_SHAPES.filter(s =>
+        (!family || s.family === family) && terms.every(t => norm(s.designation).includes(t)));
+};
+
+export const findSteelShape = (designation: string | null | undefined) =>
+    designation ? STEEL_SHAPES.find(s => s.designation === designation) ?? null : null;
+
+// Section parameters that describe each catalog section type
+type DimensionKey = 'height' | 'sectionWidth' | 'flangeWidth' | 'flangeThickness' | 'webThickness' | 'wallThickness';
+
+const dimensionKeys = (shape: SteelShape): DimensionKey[] =>
+    shape.sectionType === 'box' ? ['height', 'sectionWidth', 'wallThickness']
+    : shape.sectionType === 'tube' ? ['height', 'wallThickness']
+    : ['height', 'flangeWidth', 'flangeThickness', 'webThickness'];
+
+const dimensionValue = (shape: SteelShape, key: DimensionKey) => ({
+    height: shape.depth,
+    sectionWidth: shape.width,
+    flangeWidth: shape.width,
+    flangeThickness: shape.flangeThickness,
+    webThickness: shape.webThickness,
+    wallThickness: shape.wallThickness
+})[key];
+
+/**
+ * Section parameters of a catalog shape (dimensions the section type does not use are left alone).
+ */
+export const getSteelShapeParams = (shape: SteelShape): Partial<SimulationParams> => {
+    const patch: Partial<SimulationParams> = { sectionType: shape.sectionType, steelShape: shape.designation };
+    dimensionKeys(shape).forEach(k => { patch[k] = dimensionValue(shape, k); });
+    return patch;
+};
+
+/**
+ * The catalog shape of the parameters, if they still describe it (manual edits detach it).
+ */
+export const getActiveSteelShape = (params: SimulationParams) => {
+    const shape = findSteelShape(params.steelShape);
+    if (!shape || shape.sectionType !== params.sectionType) return null;
+    const same = dimensionKeys(shape).every(k => Math.abs(params[k] - dimensionValue(shape, k)) < 1e-9);
+    return same ? shape : null;
+};
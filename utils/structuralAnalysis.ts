@@ -1,10 +1,24 @@
-import { SimulationParams, LoadDefinition } from '../types';
+import { SimulationParams, SupportDefinition, LoadCombination } from '../types';
+import { getActiveLoads, getSupports, getStaticIndeterminacy, SELF_WEIGHT_ID } from './beamModel';
+import { SupportReaction, internalForcesAt } from './beamSolver';
+import { solveBeam, calculateSectionProperties, getShearRigidity } from './physics';
+
+export interface DiagramExtreme {
+    x: number;
+    value: number;
+}
 
 export interface DiagramData {
-    xs: number[];
+    xs: number[];     // Sample points; repeated x marks a jump (left value, then right value)
     Vs: number[];
     Ms: number[];
-    reactions: { Ra: number; Rb: number; Ma: number };
+    Ns: number[];     // Axial force N(x) (N), tension positive
+    thetas: number[]; // Slope θ(x) (rad)
+    vs: number[];     // Deflection v(x) (m), upward positive
+    maxDeflection: { x: number; v: number };
+    extremes: { Vmax: DiagramExtreme; Vmin: DiagramExtreme; Mmax: DiagramExtreme; Mmin: DiagramExtreme };
+    reactions: SupportReaction[];
+    redundancy: number; // Degree of static indeterminacy
 }
 
 export interface StepResult {
@@ -14,122 +28,235 @@ export interface StepResult {
     xB: number;
 }
 
-const checkStep = (x: number, target: number, dx: number) => x >= target && x < target + dx;
+const SEGMENT_TOL = 1e-9;
 
-export const calculateAnalyticalDiagrams = (params: SimulationParams): DiagramData => {
-    const { length: L, beamType, customLoads } = params;
-    
-    // Handle Supports
-    let supA = 0; 
-    let supB = L;
-    
-    if (beamType === 'cantilever') {
-        supA = 0; supB = 0;
-    } else if (beamType === 'overhanging') {
-        supA = params.supportA;
-        supB = params.supportB;
-    }
+/**
+ * Segment breakpoints: beam ends, supports and every load position / load edge (axial loads included).
+ */
+const getSegmentPoints = (params: SimulationParams, reactions: SupportReaction[]) => {
+    const L = params.length;
+    let pts = [0, L];
+    reactions.forEach(r => pts.push(r.x));
+    getActiveLoads(params).forEach(l => { 
+        if(l.type === 'P' || l.type === 'M' || l.type === 'N') { if(l.x !== undefined) pts.push(l.x); }
+        else { if(l.x1 !== undefined && l.x2 !== undefined) { pts.push(l.x1); pts.push(l.x2); } }
+    });
+    return [...new Set(pts.filter(x => x >= 0 && x <= L))].sort((a,b) => a - b);
+};
 
-    // 1. Calculate Reactions
-    let sumFy = 0;
-    let sumMa = 0; // Moment about point A (or support A)
-    
-    // If no custom loads, use the basic one from params
-    const loads = (customLoads && customLoads.length > 0) ? customLoads : [
-        { id: 'default', type: 'P', val: Math.abs(params.force), x: params.loadPosition } as LoadDefinition
-    ];
+/**
+ * Real roots of a·x² + b·x + c = 0 (degenerates to the linear case).
+ */
+const solveQuadratic = (a: number, b: number, c: number): number[] => {
+    const scale = Math.max(Math.abs(a), Math.abs(b), Math.abs(c), 1e-30);
+    if (Math.abs(a) / scale < 1e-12) {
+        return Math.abs(b) / scale < 1e-12 ? [] : [-c / b];
+    }
+    const disc = b * b - 4 * a * c;
+    if (disc < 0) return [];
+    const sq = Math.sqrt(disc);
+    return [(-b - sq) / (2 * a), (-b + sq) / (2 * a)];
+};
 
-    loads.forEach(l => {
-        if(l.type === 'P' && l.x !== undefined) { 
-            sumFy -= l.val; 
-            sumMa -= l.val * (l.x - supA); 
-        }
-        else if (l.type === 'M') { 
-            sumMa += l.val; 
-        }
-        else if (l.type === 'U' && l.x1 !== undefined && l.x2 !== undefined) {
-            let f = l.val * (l.x2 - l.x1);
-            sumFy -= f; 
-            sumMa -= f * ((l.x1 + l.x2)/2 - supA);
-        } else if (l.type === 'T' && l.x1 !== undefined && l.x2 !== undefined) {
-            let f = 0.5 * l.val * (l.x2 - l.x1);
-            let d = (l.peak === 'right') ? (2/3)*(l.x2-l.x1) : (1/3)*(l.x2-l.x1);
-            sumFy -= f; 
-            sumMa -= f * (l.x1 + d - supA);
-        }
-    });
+export const calculateAnalyticalDiagrams = (params: SimulationParams): DiagramData => {
+    const { length: L } = params;
 
-    const reactions = { Ra: 0, Rb: 0, Ma: 0 };
+    // 1. Support Reactions (stiffness method, so redundant supports are solved too)
+    const { reactions, isStable } = solveBeam(params);
+    const supports = getSupports(params);
+    const redundancy = getStaticIndeterminacy(supports);
 
-    if(beamType === 'cantilever') {
-        // Fix at left (x=0)
-        reactions.Ra = -sumFy; 
-        reactions.Ma = -sumMa; // Reaction moment at wall
-        reactions.Rb = 0;
-    } else {
-        let span = supB - supA; 
-        if(Math.abs(span) < 1e-6) span = 1;
-        reactions.Rb = -sumMa / span; 
-        reactions.Ra = -sumFy - reactions.Rb; 
-        reactions.Ma = 0;
+    // 2. Exact segment polynomials; EIθ, EIv and ∫V are carried across segment boundaries
+    const pts = getSegmentPoints(params, reactions);
+    const segments: Segment[] = [];
+    let theta0 = 0;
+    let v0 = 0;
+    let s0 = 0;
+    for (let i = 0; i < pts.length - 1; i++) {
+        const xA = pts[i];
+        const xB = pts[i + 1];
+        if (xB - xA < SEGMENT_TOL) continue;
+        const seg: Segment = { xA, xB, poly: getPolynomial(xA, xB, params, reactions), theta0, v0, s0 };
+        segments.push(seg);
+        theta0 = evalSlope(seg, xB);
+        v0 = evalDeflection(seg, xB);
+        s0 = evalShearIntegral(seg, xB);
     }
 
-    // 2. Calculate Diagrams (V and M arrays)
+    // 3. Integration constants from the supports: EIv = EIv* + C1·x + C2 - (EI/κGA)·∫V
+    const { I } = calculateSectionProperties(params);
+    const EI = params.youngsModulus * I;
+    const shearRatio = EI / getShearRigidity(params); // 0 for Euler-Bernoulli
+    const { C1, C2 } = isStable && EI > 0 ? solveIntegrationConstants(segments, supports, shearRatio) : { C1: 0, C2: 0 };
+    const slopeAt = (seg: Segment, x: number) => EI > 0 && isStable ? (evalSlope(seg, x) + C1) / EI : 0;
+    const deflectionAt = (seg: Segment, x: number) => EI > 0 && isStable
+        ? (evalDeflection(seg, x) + C1 * x + C2 - shearRatio * evalShearIntegral(seg, x)) / EI
+        : 0;
+    // dv/dx = θ - V/κGA (θ is the section rotation)
+    const deflectionSlopeAt = (seg: Segment, x: number) => slopeAt(seg, x) - (EI > 0 ? shearRatio * evalV(seg.poly, x) / EI : 0);
+
+    // 4. Sample each segment (boundaries are sampled on both sides to show jumps)
     const n = 400;
-    const dx = L / n;
     const xs: number[] = [];
     const Vs: number[] = [];
     const Ms: number[] = [];
-    
-    let V = 0;
-    let M = 0;
-
-    for(let i = 0; i <= n; i++) {
-        let x = i * dx;
-        
-        // Add reactions to shear
-        if (beamType !== 'cantilever') {
-            if(checkStep(x, supA, dx)) V += reactions.Ra;
-            if(checkStep(x, supB, dx)) V += reactions.Rb;
-        } else if(checkStep(x, 0, dx)) {
-            V += reactions.Ra;
-        }
-        
-        // Point Loads Shear
-        loads.forEach(l => { 
-            if(l.type === 'P' && l.x !== undefined && checkStep(x, l.x, dx)) V -= l.val; 
+    const Ns: number[] = [];
+    const thetas: number[] = [];
+    const vs: number[] = [];
+    const loads = getActiveLoads(params);
+
+    const extremes = {
+        Vmax: { x: 0, value: -Infinity }, Vmin: { x: 0, value: Infinity },
+        Mmax: { x: 0, value: -Infinity }, Mmin: { x: 0, value: Infinity }
+    };
+    let maxDeflection = { x: 0, v: 0 };
+
+    segments.forEach(seg => {
+        const { xA, xB, poly } = seg;
+        const inside = (x: number) => x > xA + SEGMENT_TOL && x < xB - SEGMENT_TOL;
+        // Axial loads are segment points, so N is constant inside
+        const { N } = isStable ? internalForcesAt((xA + xB) / 2, loads, reactions) : { N: 0 };
+
+        // Exact extremes: M is stationary where V = 0, V where q = dV/dx = 0
+        const mCandidates = [xA, xB, ...solveQuadratic(poly.v2, poly.v1, poly.v0).filter(inside)];
+        const vCandidates = [xA, xB, ...solveQuadratic(0, 2 * poly.v2, poly.v1).filter(inside)];
+        mCandidates.forEach(x => {
+            const M = evalM(poly, x);
+            if (M > extremes.Mmax.value) extremes.Mmax = { x, value: M };
+            if (M < extremes.Mmin.value) extremes.Mmin = { x, value: M };
+        });
+        vCandidates.forEach(x => {
+            const V = evalV(poly, x);
+            if (V > extremes.Vmax.value) extremes.Vmax = { x, value: V };
+            if (V < extremes.Vmin.value) extremes.Vmin = { x, value: V };
         });
-        
-        // Distributed Loads Shear Integration
-        let q = 0;
-        loads.forEach(l => {
-            if(l.x1 !== undefined && l.x2 !== undefined && x >= l.x1 && x <= l.x2) {
-                if(l.type === 'U') q += l.val;
-                if(l.type === 'T') { 
-                    let r = (x - l.x1)/(l.x2 - l.x1); 
-                    q += (l.peak === 'right' ? r : (1-r)) * l.val; 
+
+        // Uniform samples plus the stationary points so plotted peaks are exact
+        const k = Math.max(2, Math.ceil(n * (xB - xA) / L));
+        const samples = Array.from({ length: k + 1 }, (_, j) => xA + (xB - xA) * j / k);
+        const segXs = [...new Set([...samples, ...mCandidates, ...vCandidates])].sort((a, b) => a - b);
+
+        segXs.forEach((x, j) => {
+            xs.push(x);
+            Vs.push(evalV(poly, x));
+            Ms.push(evalM(poly, x));
+            Ns.push(N);
+            thetas.push(slopeAt(seg, x));
+            vs.push(deflectionAt(seg, x));
+
+            // Maximum deflection where dv/dx changes sign (refined by bisection)
+            let xv = x;
+            if (j > 0 && deflectionSlopeAt(seg, segXs[j - 1]) * deflectionSlopeAt(seg, x) < 0) {
+                let lo = segXs[j - 1], hi = x;
+                for (let it = 0; it < 50; it++) {
+                    const mid = 0.5 * (lo + hi);
+                    if (deflectionSlopeAt(seg, lo) * deflectionSlopeAt(seg, mid) <= 0) hi = mid; else lo = mid;
                 }
+                xv = 0.5 * (lo + hi);
             }
+            [x, xv].forEach(xc => {
+                const v = deflectionAt(seg, xc);
+                if (Math.abs(v) > Math.abs(maxDeflection.v)) maxDeflection = { x: xc, v };
+            });
         });
-        V -= q * dx;
-        
-        // Moment Integration
-        M += V * dx;
-        
-        // Reaction Moment (Cantilever)
-        if(beamType === 'cantilever' && checkStep(x, 0, dx)) M += -reactions.Ma;
-        
-        // Point Moments
-        loads.forEach(l => { 
-            if(l.type === 'M' && l.x !== undefined && checkStep(x, l.x, dx)) M -= l.val; 
+    });
+
+    if (segments.length === 0) {
+        (['Vmax', 'Vmin', 'Mmax', 'Mmin'] as const).forEach(key => { extremes[key] = { x: 0, value: 0 }; });
+    }
+
+    return { xs, Vs, Ms, Ns, thetas, vs, maxDeflection, extremes, reactions, redundancy };
+};
+
+/**
+ * Reads V, M, N, θ and v at x from the sampled diagrams (linear between samples).
+ * At a jump the value right of x is returned.
+ */
+export const sampleDiagrams = (data: DiagramData, x: number) => {
+    const { xs } = data;
+    const n = xs.length;
+    if (n === 0) return { V: 0, M: 0, N: 0, theta: 0, v: 0 };
+
+    let i = 0;
+    while (i < n - 2 && xs[i + 1] <= x) i++;
+    const span = xs[i + 1] - xs[i];
+    const t = n > 1 && span > SEGMENT_TOL ? Math.max(0, Math.min(1, (x - xs[i]) / span)) : 0;
+    const lerp = (arr: number[]) => n > 1 ? arr[i] + (arr[i + 1] - arr[i]) * t : arr[0];
+    return { V: lerp(data.Vs), M: lerp(data.Ms), N: lerp(data.Ns), theta: lerp(data.thetas), v: lerp(data.vs) };
+};
+
+export interface CombinationResult {
+    combination: LoadCombination;
+    extremes: DiagramData['extremes'];
+    maxDeflection: DiagramData['maxDeflection'];
+}
+
+export interface CombinationEnvelope {
+    xs: number[];   // Sample points of the unfactored diagrams (repeated x marks a jump)
+    Vmax: number[];
+    Vmin: number[];
+    Mmax: number[];
+    Mmin: number[];
+    results: CombinationResult[];
+    governingMoment: CombinationResult; // Largest |M|
+    governingShear: CombinationResult;  // Largest |V|
+}
+
+const maxAbs = (e: DiagramData['extremes'], key: 'V' | 'M') =>
+    key === 'V' ? Math.max(Math.abs(e.Vmax.value), Math.abs(e.Vmin.value)) : Math.max(Math.abs(e.Mmax.value), Math.abs(e.Mmin.value));
+
+/**
+ * Analyses every load combination and returns the V/M envelope (null without combinations).
+ */
+export const calculateCombinationEnvelope = (params: SimulationParams): CombinationEnvelope | null => {
+    const combinations = params.loadCombinations || [];
+    if (combinations.length === 0) return null;
+
+    const { xs } = calculateAnalyticalDiagrams({ ...params, activeCombination: null });
+    // Left / right values at jumps
+    const queryXs = xs.map((x, i) => xs[i + 1] === x ? x - SEGMENT_TOL : xs[i - 1] === x ? x + SEGMENT_TOL : x);
+    const Vmax = xs.map(() => -Infinity), Vmin = xs.map(() => Infinity);
+    const Mmax = xs.map(() => -Infinity), Mmin = xs.map(() => Infinity);
+
+    const results = combinations.map(combination => {
+        const data = calculateAnalyticalDiagrams({ ...params, activeCombination: combination.id });
+        queryXs.forEach((x, i) => {
+            const { V, M } = sampleDiagrams(data, x);
+            Vmax[i] = Math.max(Vmax[i], V); Vmin[i] = Math.min(Vmin[i], V);
+            Mmax[i] = Math.max(Mmax[i], M); Mmin[i] = Math.min(Mmin[i], M);
         });
-        
-        xs.push(x);
-        Vs.push(V);
-        Ms.push(M);
+        return { combination, extremes: data.extremes, maxDeflection: data.maxDeflection };
+    });
+
+    const governing = (key: 'V' | 'M') =>
+        results.reduce((best, r) => maxAbs(r.extremes, key) > maxAbs(best.extremes, key) ? r : best);
+    return { xs, Vmax, Vmin, Mmax, Mmin, results, governingMoment: governing('M'), governingShear: governing('V') };
+};
+
+/**
+ * Fixes the two integration constants from the supports:
+ * v = θ = 0 at a fixed support, otherwise v = 0 at the first two pin/roller supports.
+ * shearRatio = EI/κGA adds the Timoshenko shear deflection (0 for Euler-Bernoulli).
+ */
+const solveIntegrationConstants = (segments: Segment[], supports: SupportDefinition[], shearRatio: number = 0) => {
+    const find = (x: number) => segments.find(seg => x <= seg.xB + SEGMENT_TOL) || segments[segments.length - 1];
+    const slope = (x: number) => evalSlope(find(x), x);
+    const defl = (x: number) => evalDeflection(find(x), x) - shearRatio * evalShearIntegral(find(x), x);
+
+    if (segments.length === 0) return { C1: 0, C2: 0 };
+
+    const fixed = supports.find(s => s.type === 'fixed');
+    if (fixed) {
+        const C1 = -slope(fixed.x);
+        return { C1, C2: -defl(fixed.x) - C1 * fixed.x };
     }
 
-    return { xs, Vs, Ms, reactions };
+    const pins = supports.filter(s => s.type !== 'fixed');
+    const a = pins[0];
+    const b = pins.find(s => a && Math.abs(s.x - a.x) > SEGMENT_TOL);
+    if (!a || !b) return { C1: 0, C2: 0 };
+    const C1 = -(defl(b.x) - defl(a.x)) / (b.x - a.x);
+    return { C1, C2: -defl(a.x) - C1 * a.x };
 };
 
 // --- Polynomial Solver for Detailed Analysis ---
@@ -139,33 +266,40 @@ interface PolyCoeffs {
     v2: number; v1: number; v0: number;
 }
 
-const getPolynomial = (xA: number, xB: number, params: SimulationParams, reactions: {Ra:number, Rb:number, Ma:number}): PolyCoeffs => {
+interface Segment {
+    xA: number;
+    xB: number;
+    poly: PolyCoeffs;
+    theta0: number; // EIθ* at xA (before integration constants)
+    v0: number;     // EIv* at xA
+    s0: number;     // ∫V dx from 0 to xA (shear deflection)
+}
+
+const evalV = (c: PolyCoeffs, x: number) => (c.v2 * x + c.v1) * x + c.v0;
+const evalM = (c: PolyCoeffs, x: number) => ((c.m3 * x + c.m2) * x + c.m1) * x + c.m0;
+
+// Antiderivatives of M(x): ∫M dx and ∫∫M dx
+const intM = (c: PolyCoeffs, x: number) => (((c.m3 / 4 * x + c.m2 / 3) * x + c.m1 / 2) * x + c.m0) * x;
+const intIntM = (c: PolyCoeffs, x: number) => ((((c.m3 / 20 * x + c.m2 / 12) * x + c.m1 / 6) * x + c.m0 / 2) * x) * x;
+
+// V = dM/dx inside a segment, so ∫V dx is continuous even where M jumps at an applied moment
+const evalShearIntegral = (seg: Segment, x: number) => seg.s0 + evalM(seg.poly, x) - evalM(seg.poly, seg.xA);
+const evalSlope = (seg: Segment, x: number) => seg.theta0 + intM(seg.poly, x) - intM(seg.poly, seg.xA);
+const evalDeflection = (seg: Segment, x: number) =>
+    seg.v0 + (seg.theta0 - intM(seg.poly, seg.xA)) * (x - seg.xA) + intIntM(seg.poly, x) - intIntM(seg.poly, seg.xA);
+
+const getPolynomial = (xA: number, xB: number, params: SimulationParams, reactions: SupportReaction[]): PolyCoeffs => {
     let c: PolyCoeffs = { m3:0, m2:0, m1:0, m0:0, v2:0, v1:0, v0:0 };
-    const { beamType, supportA, supportB, customLoads } = params;
-    const supA = beamType === 'overhanging' ? supportA : 0;
-    const supB = beamType === 'overhanging' ? supportB : params.length;
-    
-    const loads = (customLoads && customLoads.length > 0) ? customLoads : [
-         { id: 'default', type: 'P', val: Math.abs(params.force), x: params.loadPosition } as LoadDefinition
-    ];
+    const loads = getActiveLoads(params);
 
     // Reactions contributions
-    if (beamType === 'cantilever') { 
-        c.v0 += reactions.Ra; 
-        c.m1 += reactions.Ra; 
-        c.m0 -= reactions.Ma; 
-    } else {
-        if (supA <= xA) { 
-            c.v0 += reactions.Ra; 
-            c.m1 += reactions.Ra; 
-            c.m0 -= reactions.Ra * supA; 
+    reactions.forEach(r => {
+        if (r.x <= xA) { 
+            c.v0 += r.Fy; 
+            c.m1 += r.Fy; 
+            c.m0 -= r.Fy * r.x + r.Mz; 
         }
-        if (supB <= xA) { 
-            c.v0 += reactions.Rb; 
-            c.m1 += reactions.Rb; 
-            c.m0 -= reactions.Rb * supB; 
-        }
-    }
+    });
 
     // Loads contributions
     loads.forEach(l => {
@@ -221,9 +355,8 @@ const getPolynomial = (xA: number, xB: number, params: SimulationParams, reactio
     return c;
 };
 
-const formatPoly = (c: PolyCoeffs, type: 'V' | 'M') => {
+const formatTerms = (arr: { p: number; v: number }[]) => {
     let terms: string[] = []; 
-    let arr = type === 'V' ? [{p:2, v:c.v2}, {p:1, v:c.v1}, {p:0, v:c.v0}] : [{p:3, v:c.m3}, {p:2, v:c.m2}, {p:1, v:c.m1}, {p:0, v:c.m0}];
     arr.forEach(t => {
         if (Math.abs(t.v) > 0.001) {
             let sign = t.v >= 0 ? "+" : "-"; 
@@ -235,21 +368,111 @@ const formatPoly = (c: PolyCoeffs, type: 'V' | 'M') => {
     return terms.length > 0 ? terms.join("") : "0.00";
 };
 
+const formatPoly = (c: PolyCoeffs, type: 'V' | 'M') => formatTerms(
+    type === 'V' ? [{p:2, v:c.v2}, {p:1, v:c.v1}, {p:0, v:c.v0}] : [{p:3, v:c.m3}, {p:2, v:c.m2}, {p:1, v:c.m1}, {p:0, v:c.m0}]
+);
+
 // --- Generate Step-by-Step HTML Strings ---
 
-export const generateDetailedSteps = (params: SimulationParams, reactions: any): StepResult[] => {
-    let pts = [0, params.length];
-    if(params.beamType === 'overhanging') { pts.push(params.supportA); pts.push(params.supportB); }
-    
-    const loads = (params.customLoads && params.customLoads.length > 0) ? params.customLoads : [
-        { id: 'default', type: 'P', val: Math.abs(params.force), x: params.loadPosition } as LoadDefinition
-   ];
+const num = (v: number) => v.toFixed(2);
+const signed = (v: number) => (v >= 0 ? ` + ${num(v)}` : ` - ${num(-v)}`);
+const shift = (x0: number) => Math.abs(x0) < 1e-9 ? 'x' : `(x - ${num(x0)})`;
+const joinTerms = (terms: string[]) => terms.length > 0 ? terms.join(' ').trim().replace(/^\+\s*/, '') : '0';
 
-    loads.forEach(l => { 
-        if(l.type === 'P' || l.type === 'M') { if(l.x !== undefined) pts.push(l.x); }
-        else { if(l.x1 !== undefined && l.x2 !== undefined) { pts.push(l.x1); pts.push(l.x2); } }
+/**
+ * Symbol names for the free-body diagram (R_A, M_A, P_1, w_1, M_1 ...).
+ */
+const getSymbols = (params: SimulationParams, reactions: SupportReaction[]) => {
+    // Axial loads do not enter the transverse equilibrium
+    const loads = getActiveLoads(params).filter(l => l.type !== 'N');
+    const counters: Record<string, number> = { P: 0, w: 0, M: 0 };
+    const loadNames = loads.map(l => {
+        if (l.id === SELF_WEIGHT_ID) return 'w_{sw}';
+        const key = l.type === 'P' ? 'P' : l.type === 'M' ? 'M' : 'w';
+        counters[key] += 1;
+        return `${key}_{${counters[key]}}`;
+    });
+    const reactionNames = reactions.map((_, i) => String.fromCharCode(65 + i));
+    return { loads, loadNames, reactionNames };
+};
+
+/**
+ * Free-body diagram equilibrium (ΣFy, ΣM about the first support) and solved reactions.
+ */
+export const generateReactionSteps = (params: SimulationParams, reactions: SupportReaction[]): string => {
+    const { loads, loadNames, reactionNames } = getSymbols(params, reactions);
+    const xRef = reactions.length > 0 ? reactions[0].x : 0;
+    const refName = reactions.length > 0 ? reactionNames[0] : 'O';
+    const redundancy = getStaticIndeterminacy(getSupports(params));
+
+    // Resultant of each load for the global equilibrium
+    const resultants = loads.map((l, i) => {
+        const name = loadNames[i];
+        if (l.type === 'P' && l.x !== undefined) {
+            return { name, F: l.val, x: l.x, sym: name, couple: 0 };
+        } else if (l.type === 'M') {
+            return { name, F: 0, x: l.x ?? 0, sym: name, couple: l.val };
+        } else if (l.x1 !== undefined && l.x2 !== undefined) {
+            const span = l.x2 - l.x1;
+            if (l.type === 'U') return { name, F: l.val * span, x: (l.x1 + l.x2) / 2, sym: `${name}(${num(span)})`, couple: 0 };
+            const cent = l.peak === 'right' ? l.x1 + 2 * span / 3 : l.x1 + span / 3;
+            return { name, F: 0.5 * l.val * span, x: cent, sym: `\\tfrac{1}{2}${name}(${num(span)})`, couple: 0 };
+        }
+        return { name, F: 0, x: 0, sym: name, couple: 0 };
+    });
+
+    let html = `<div class="text-xs text-slate-400 mb-1">1. 自由體圖 (Free-Body Diagram)</div>`;
+    html += `<div class="mb-2">`;
+    loads.forEach((l, i) => {
+        const where = l.type === 'P' || l.type === 'M' ? `x = ${num(l.x ?? 0)}` : `${num(l.x1 ?? 0)} \\le x \\le ${num(l.x2 ?? 0)}`;
+        const kind = l.type === 'P' ? '集中力' : l.type === 'M' ? '集中彎矩 (逆時針為正)' : l.type === 'U' ? '均佈載重' : '三角形載重';
+        html += `<div>\\( ${loadNames[i]} = ${num(l.val)} \\) ${kind}, \\( ${where} \\)</div>`;
+    });
+    reactions.forEach((r, i) => {
+        html += `<div>\\( R_${reactionNames[i]} \\)${r.type === 'fixed' ? ` 與 \\( M_${reactionNames[i]} \\)` : ''}: ${r.type} 支承於 \\( x = ${num(r.x)} \\)</div>`;
     });
-    pts = [...new Set(pts)].sort((a,b) => a - b);
+    html += `</div>`;
+
+    // ΣFy = 0
+    const fyTerms = [
+        ...reactions.map((_, i) => `+ R_${reactionNames[i]}`),
+        ...resultants.filter(r => r.F !== 0).map(r => `- ${r.sym}`)
+    ];
+    html += `<div class="text-xs text-slate-400 mb-1">2. 平衡方程式 (Equilibrium)</div>`;
+    html += `<div>\\[ \\sum F_y = 0: \\quad ${joinTerms(fyTerms)} = 0 \\]</div>`;
+
+    // ΣM about the first support (counter-clockwise positive)
+    const arm = (x: number) => num(x - xRef);
+    const mTerms = [
+        ...reactions.slice(1).map((r, i) => `+ R_${reactionNames[i + 1]}(${arm(r.x)})`),
+        ...reactions.filter(r => r.type === 'fixed').map(r => `+ M_${reactionNames[reactions.indexOf(r)]}`),
+        ...resultants.filter(r => r.F !== 0).map(r => `- ${r.sym}(${arm(r.x)})`),
+        ...resultants.filter(r => r.couple !== 0).map(r => `+ ${r.sym}`)
+    ];
+    html += `<div>\\[ \\sum M_{${refName}} = 0 \\;(\\circlearrowleft +): \\quad ${joinTerms(mTerms)} = 0 \\]</div>`;
+
+    // Solved reactions
+    html += `<div class="text-xs text-slate-400 mb-1">3. 支承反力 (Reactions)</div>`;
+    if (redundancy > 0) {
+        html += `<div class="text-xs text-amber-400 mb-1">靜不定 ${redundancy} 次：平衡方程式不足，多餘反力由變形諧和條件 (勁度法) 求得。</div>`;
+    }
+    html += `<div class="result-box">`;
+    reactions.forEach((r, i) => {
+        html += `\\( R_${reactionNames[i]} = ${num(r.Fy)} \\)${r.Fy < 0 ? ' (向下 / 上拔)' : ''}`;
+        if (r.type === 'fixed') html += ` &nbsp; \\( M_${reactionNames[i]} = ${num(r.Mz)} \\)`;
+        html += `<br>`;
+    });
+    html += `</div>`;
+
+    // Equilibrium check with the numbers substituted
+    const sumFy = reactions.reduce((sum, r) => sum + r.Fy, 0) - resultants.reduce((sum, r) => sum + r.F, 0);
+    html += `<div class="text-xs text-slate-500 mt-1">檢核: \\( \\sum F_y = ${num(sumFy)} \\approx 0 \\)</div>`;
+    return html;
+};
+
+export const generateDetailedSteps = (params: SimulationParams, reactions: SupportReaction[]): StepResult[] => {
+    const pts = getSegmentPoints(params, reactions);
+    const { loads, loadNames, reactionNames } = getSymbols(params, reactions);
     
     const results: StepResult[] = [];
 
@@ -262,9 +485,75 @@ export const generateDetailedSteps = (params: SimulationParams, reactions: any):
         let simplifiedV = formatPoly(poly, 'V');
         let simplifiedM = formatPoly(poly, 'M');
 
-        // Logic for steps string generation (Simplified port for brevity)
+        // Section cut at x: every action left of the cut enters the equilibrium equations
+        const vSym: string[] = [];
+        const mSym: string[] = [];
+        const vNum: string[] = [];
+        const mNum: string[] = [];
+        let q1 = 0, q0 = 0; // q(x) = q1·x + q0 inside the segment
+
+        reactions.forEach((r, idx) => {
+            if (r.x > xA) return;
+            const n = reactionNames[idx];
+            vSym.push(`+ R_${n}`); vNum.push(signed(r.Fy));
+            mSym.push(`+ R_${n}${shift(r.x)}`); mNum.push(`${signed(r.Fy)}${shift(r.x)}`);
+            if (r.type === 'fixed') { mSym.push(`- M_${n}`); mNum.push(signed(-r.Mz)); }
+        });
+
+        loads.forEach((l, idx) => {
+            const n = loadNames[idx];
+            if (l.type === 'P' && l.x !== undefined && l.x <= xA) {
+                vSym.push(`- ${n}`); vNum.push(signed(-l.val));
+                mSym.push(`- ${n}${shift(l.x)}`); mNum.push(`${signed(-l.val)}${shift(l.x)}`);
+            } else if (l.type === 'M' && l.x !== undefined && l.x <= xA) {
+                mSym.push(`- ${n}`); mNum.push(signed(-l.val));
+            } else if ((l.type === 'U' || l.type === 'T') && l.x1 !== undefined && l.x2 !== undefined) {
+                const span = l.x2 - l.x1;
+                if (l.x2 <= xA) {
+                    // Whole load left of the cut: use its resultant
+                    const F = l.type === 'U' ? l.val * span : 0.5 * l.val * span;
+                    const cent = l.type === 'U' ? (l.x1 + l.x2) / 2 : (l.peak === 'right' ? l.x1 + 2 * span / 3 : l.x1 + span / 3);
+                    const FSym = l.type === 'U' ? `${n}(${num(span)})` : `\\tfrac{1}{2}${n}(${num(span)})`;
+                    vSym.push(`- ${FSym}`); vNum.push(signed(-F));
+                    mSym.push(`- ${FSym}${shift(cent)}`); mNum.push(`${signed(-F)}${shift(cent)}`);
+                } else if (l.x1 <= xA && l.x2 >= xB) {
+                    // Load partially left of the cut: from x1 up to x
+                    const s = shift(l.x1);
+                    if (l.type === 'U') {
+                        vSym.push(`- ${n}${s}`); vNum.push(`${signed(-l.val)}${s}`);
+                        mSym.push(`- \\frac{${n}${s}^2}{2}`); mNum.push(`${signed(-l.val / 2)}${s}^2`);
+                        q0 += l.val;
+                    } else if (l.peak === 'right') {
+                        vSym.push(`- \\frac{${n}${s}^2}{2(${num(span)})}`); vNum.push(`${signed(-l.val / (2 * span))}${s}^2`);
+                        mSym.push(`- \\frac{${n}${s}^3}{6(${num(span)})}`); mNum.push(`${signed(-l.val / (6 * span))}${s}^3`);
+                        q1 += l.val / span; q0 -= l.val * l.x1 / span;
+                    } else {
+                        vSym.push(`- ${n}${s} + \\frac{${n}${s}^2}{2(${num(span)})}`); vNum.push(`${signed(-l.val)}${s}${signed(l.val / (2 * span))}${s}^2`);
+                        mSym.push(`- \\frac{${n}${s}^2}{2} + \\frac{${n}${s}^3}{6(${num(span)})}`); mNum.push(`${signed(-l.val / 2)}${s}^2${signed(l.val / (6 * span))}${s}^3`);
+                        q1 -= l.val / span; q0 += l.val + l.val * l.x1 / span;
+                    }
+                }
+            }
+        });
+
+        const VA = (poly.v2 * xA + poly.v1) * xA + poly.v0;
+        const MA = ((poly.m3 * xA + poly.m2) * xA + poly.m1) * xA + poly.m0;
+        const qStr = formatTerms([{ p: 1, v: q1 }, { p: 0, v: q0 }]);
+        const inXi = (str: string) => str.replace(/x/g, '\\xi ');
+
         let eqStr = `<div class="result-box">\\( V(x) = ${simplifiedV} \\) <br> \\( M(x) = ${simplifiedM} \\)</div>`;
-        let intStr = `<div class="text-xs text-slate-400 mb-2">區間積分過程 (Integration Steps):</div>` + eqStr;
+
+        let intStr = `<div class="text-xs text-slate-400 mb-1">(a) 截面切割 (Section Cut): \\( ${num(xA)} \\lt x \\lt ${num(xB)} \\)，取左側自由體</div>`;
+        intStr += `<div>\\[ \\sum F_y = 0: \\; V(x) = ${joinTerms(vSym)} \\]</div>`;
+        intStr += `<div>\\[ \\sum M_{cut} = 0: \\; M(x) = ${joinTerms(mSym)} \\]</div>`;
+        intStr += `<div class="text-xs text-slate-400 mb-1">(b) 代入數值 (Substitution)</div>`;
+        intStr += `<div>\\[ V(x) = ${joinTerms(vNum)} \\]</div>`;
+        intStr += `<div>\\[ M(x) = ${joinTerms(mNum)} \\]</div>`;
+        intStr += `<div class="text-xs text-slate-400 mb-1">(c) 區間積分過程 (Integration Steps)</div>`;
+        intStr += `<div>\\[ \\frac{dV}{dx} = -q(x) = ${qStr === '0.00' ? '0' : `-(${qStr})`} \\]</div>`;
+        intStr += `<div>\\[ V(x) = V(${num(xA)}^+) - \\int_{${num(xA)}}^{x} q\\,d\\xi = ${num(VA)} - \\int_{${num(xA)}}^{x} (${inXi(qStr)})\\,d\\xi \\]</div>`;
+        intStr += `<div>\\[ M(x) = M(${num(xA)}^+) + \\int_{${num(xA)}}^{x} V\\,d\\xi = ${num(MA)} + \\int_{${num(xA)}}^{x} (${inXi(simplifiedV)})\\,d\\xi \\]</div>`;
+        intStr += eqStr;
 
         results.push({
             eq: eqStr,
@@ -274,4 +563,304 @@ export const generateDetailedSteps = (params: SimulationParams, reactions: any):
         });
     }
     return results;
-};
\ No newline at end of file
+};
+
+// --- Critical Points (max/min, zero shear, inflection) ---
+
+export type CriticalPointType = 'Mmax' | 'Mmin' | 'Vmax' | 'Vmin' | 'zeroShear' | 'inflection';
+
+export interface CriticalPoint {
+    type: CriticalPointType;
+    x: number;
+    V: number;
+    M: number;
+    note?: string;
+}
+
+/**
+ * Roots of a polynomial inside [xA, xB]. The interval is split at the stationary
+ * points of the polynomial, so each piece is monotone and holds at most one root.
+ */
+const findRootsInSegment = (f: (x: number) => number, stationary: number[], xA: number, xB: number): number[] => {
+    const cuts = [xA, ...stationary.filter(x => x > xA && x < xB).sort((a, b) => a - b), xB];
+    const scale = Math.max(...cuts.map(x => Math.abs(f(x))), 1e-12);
+    const roots: number[] = [];
+
+    for (let i = 0; i < cuts.length - 1; i++) {
+        let lo = cuts[i], hi = cuts[i + 1];
+        const fl = f(lo), fh = f(hi);
+        if (Math.abs(fl) / scale < 1e-9) { roots.push(lo); continue; }
+        if (Math.abs(fh) / scale < 1e-9) continue; // Picked up by the next piece / segment end
+        if (fl * fh > 0) continue;
+        for (let it = 0; it < 60; it++) {
+            const mid = 0.5 * (lo + hi);
+            if (f(lo) * f(mid) <= 0) hi = mid; else lo = mid;
+        }
+        roots.push(0.5 * (lo + hi));
+    }
+    if (Math.abs(f(xB)) / scale < 1e-9) roots.push(xB);
+    return roots;
+};
+
+/**
+ * Solves V(x) = 0 and M(x) = 0 on every segment polynomial and collects the
+ * extreme values, zero-shear locations and inflection points (sign change of M).
+ */
+export const findCriticalPoints = (params: SimulationParams, data: DiagramData): CriticalPoint[] => {
+    const { reactions, extremes } = data;
+    const L = params.length;
+    const pts = getSegmentPoints(params, reactions);
+    const polys: { xA: number; xB: number; poly: PolyCoeffs }[] = [];
+    for (let i = 0; i < pts.length - 1; i++) {
+        if (pts[i + 1] - pts[i] < SEGMENT_TOL) continue;
+        polys.push({ xA: pts[i], xB: pts[i + 1], poly: getPolynomial(pts[i], pts[i + 1], params, reactions) });
+    }
+    if (polys.length === 0) return [];
+
+    const results: CriticalPoint[] = [];
+    const tol = Math.max(L, 1) * 1e-6;
+    const pushUnique = (p: CriticalPoint) => {
+        if (!results.some(r => r.type === p.type && Math.abs(r.x - p.x) < tol)) results.push(p);
+    };
+
+    // Values just left / right of x
+    const side = (x: number, dir: -1 | 1) => {
+        const xe = Math.max(0, Math.min(L, x + dir * tol));
+        const seg = polys.find(s => xe >= s.xA && xe <= s.xB) || polys[polys.length - 1];
+        return { V: evalV(seg.poly, xe), M: evalM(seg.poly, xe) };
+    };
+
+    const Mscale = Math.max(...polys.map(s => Math.max(Math.abs(evalM(s.poly, s.xA)), Math.abs(evalM(s.poly, s.xB)))), 1e-9);
+    const Vscale = Math.max(...polys.map(s => Math.max(Math.abs(evalV(s.poly, s.xA)), Math.abs(evalV(s.poly, s.xB)))), 1e-9);
+
+    polys.forEach(({ xA, xB, poly }, idx) => {
+        // V(x) = 0 (quadratic) -> zero shear, local extremes of M
+        solveQuadratic(poly.v2, poly.v1, poly.v0)
+            .filter(x => x >= xA - SEGMENT_TOL && x <= xB + SEGMENT_TOL && x > tol && x < L - tol)
+            .forEach(x => {
+                const l = side(x, -1), r = side(x, 1);
+                if (l.V * r.V < 0) pushUnique({ type: 'zeroShear', x, V: 0, M: evalM(poly, x) });
+            });
+
+        // Shear jumping across zero at a concentrated load also gives a zero-shear section
+        if (idx > 0) {
+            const left = evalV(polys[idx - 1].poly, xA);
+            const right = evalV(poly, xA);
+            if (left * right < 0 && Math.abs(left) > Vscale * 1e-9 && Math.abs(right) > Vscale * 1e-9) {
+                pushUnique({ type: 'zeroShear', x: xA, V: 0, M: evalM(poly, xA), note: `V: ${left.toFixed(2)} → ${right.toFixed(2)}` });
+            }
+        }
+
+        // M(x) = 0 (cubic) -> inflection points where the moment changes sign
+        const stationary = solveQuadratic(poly.v2, poly.v1, poly.v0);
+        findRootsInSegment(x => evalM(poly, x), stationary, xA, xB)
+            .filter(x => x > tol && x < L - tol)
+            .forEach(x => {
+                const l = side(x, -1), r = side(x, 1);
+                if (l.M * r.M < 0 && Math.abs(l.M) > Mscale * 1e-9) pushUnique({ type: 'inflection', x, V: evalV(poly, x), M: 0 });
+            });
+    });
+
+    // Extreme values (largest positive / negative) from the exact diagram evaluation
+    const at = (x: number) => {
+        const seg = polys.find(s => x >= s.xA && x < s.xB) || polys[polys.length - 1];
+        return { V: evalV(seg.poly, x), M: evalM(seg.poly, x) };
+    };
+    if (extremes.Mmax.value > Mscale * 1e-9) results.push({ type: 'Mmax', x: extremes.Mmax.x, V: at(extremes.Mmax.x).V, M: extremes.Mmax.value });
+    if (extremes.Mmin.value < -Mscale * 1e-9) results.push({ type: 'Mmin', x: extremes.Mmin.x, V: at(extremes.Mmin.x).V, M: extremes.Mmin.value });
+    if (extremes.Vmax.value > Vscale * 1e-9) results.push({ type: 'Vmax', x: extremes.Vmax.x, V: extremes.Vmax.value, M: at(extremes.Vmax.x).M });
+    if (extremes.Vmin.value < -Vscale * 1e-9) results.push({ type: 'Vmin', x: extremes.Vmin.x, V: extremes.Vmin.value, M: at(extremes.Vmin.x).M });
+
+    return results.sort((a, b) => a.x - b.x);
+};
+
+// --- Singularity-Function (Macaulay) Method ---
+
+/**
+ * One term c·⟨x - a⟩ⁿ of a singularity-function expression.
+ * n = -2 is a concentrated moment (doublet), n = -1 a concentrated force (Dirac delta).
+ */
+interface SingularityTerm {
+    c: number;
+    a: number;
+    n: number;
+}
+
+export interface MacaulayResult {
+    html: string;
+    // Largest deviation from calculateAnalyticalDiagrams, relative to the peak value of each diagram
+    errors: { V: number; M: number; theta: number; v: number };
+    matches: boolean;
+}
+
+const MACAULAY_TOL = 1e-6;
+
+/**
+ * ⟨x - a⟩ⁿ summed over all terms. Negative orders are zero away from x = a;
+ * side 'left' excludes the step of n = 0 terms located exactly at x.
+ */
+const evalSingularity = (terms: SingularityTerm[], x: number, side: 'left' | 'right' = 'right') =>
+    terms.reduce((sum, t) => {
+        if (t.n < 0) return sum;
+        if (t.n === 0) return (side === 'right' ? x >= t.a - SEGMENT_TOL : x > t.a + SEGMENT_TOL) ? sum + t.c : sum;
+        return x > t.a ? sum + t.c * Math.pow(x - t.a, t.n) : sum;
+    }, 0);
+
+/**
+ * ∫⟨x - a⟩ⁿ dx = ⟨x - a⟩ⁿ⁺¹ for n < 0, ⟨x - a⟩ⁿ⁺¹ / (n + 1) for n ≥ 0.
+ */
+const integrateSingularity = (terms: SingularityTerm[]): SingularityTerm[] =>
+    terms.map(t => ({ c: t.n < 0 ? t.c : t.c / (t.n + 1), a: t.a, n: t.n + 1 }));
+
+const formatBracket = (a: number, n: number) =>
+    `\\langle ${Math.abs(a) < SEGMENT_TOL ? 'x' : `x - ${num(a)}`} \\rangle^{${n}}`;
+
+const formatSingularity = (terms: SingularityTerm[]) =>
+    joinTerms(terms.filter(t => Math.abs(t.c) > 1e-9).map(t => `${signed(t.c)}${formatBracket(t.a, t.n)}`));
+
+/**
+ * Loading function q(x) (upward positive) of the whole beam, reactions included,
+ * so V = ∫q and M = ∫V start from zero at x = 0⁻.
+ */
+const getLoadingTerms = (params: SimulationParams, reactions: SupportReaction[]) => {
+    const { loads, loadNames, reactionNames } = getSymbols(params, reactions);
+    const terms: SingularityTerm[] = [];
+    const rows: { name: string; expr: string }[] = [];
+    const add = (name: string, parts: SingularityTerm[]) => {
+        terms.push(...parts);
+        rows.push({ name, expr: formatSingularity(parts) });
+    };
+
+    reactions.forEach((r, i) => {
+        add(`R_${reactionNames[i]}`, [{ c: r.Fy, a: r.x, n: -1 }]);
+        // M jumps by -Mz at a CCW reaction moment, i.e. -Mz·⟨x - a⟩⁻²
+        if (r.type === 'fixed') add(`M_${reactionNames[i]}`, [{ c: -r.Mz, a: r.x, n: -2 }]);
+    });
+
+    loads.forEach((l, i) => {
+        const name = loadNames[i];
+        if (l.type === 'P' && l.x !== undefined) {
+            add(name, [{ c: -l.val, a: l.x, n: -1 }]);
+        } else if (l.type === 'M' && l.x !== undefined) {
+            add(name, [{ c: -l.val, a: l.x, n: -2 }]);
+        } else if ((l.type === 'U' || l.type === 'T') && l.x1 !== undefined && l.x2 !== undefined && l.x2 > l.x1) {
+            // Linear downward load qa → qb on [x1, x2]: switched on at x1 and cancelled at x2
+            const qa = l.type === 'U' || l.peak !== 'right' ? l.val : 0;
+            const qb = l.type === 'U' || l.peak === 'right' ? l.val : 0;
+            const k = (qb - qa) / (l.x2 - l.x1);
+            add(name, [
+                { c: -qa, a: l.x1, n: 0 },
+                { c: -k, a: l.x1, n: 1 },
+                { c: k, a: l.x2, n: 1 },
+                { c: qb, a: l.x2, n: 0 }
+            ]);
+        }
+    });
+
+    return { terms, rows };
+};
+
+/**
+ * Writes the whole loading as one singularity-function expression, integrates it
+ * for V, M, EIθ and EIv, fixes C1/C2 from the supports and checks the result
+ * against calculateAnalyticalDiagrams.
+ */
+export const generateMacaulaySteps = (params: SimulationParams, data: DiagramData): MacaulayResult => {
+    const L = params.length;
+    const supports = getSupports(params);
+    const { I } = calculateSectionProperties(params);
+    const EI = params.youngsModulus * I;
+
+    const { terms: qTerms, rows } = getLoadingTerms(params, data.reactions);
+    const vTerms = integrateSingularity(qTerms);
+    const mTerms = integrateSingularity(vTerms);
+    const tTerms = integrateSingularity(mTerms);
+    const dTerms = integrateSingularity(tTerms);
+
+    // Timoshenko: EIv also carries -(EI/κGA)·∫V dx, i.e. M without the steps of applied moments
+    const shearRatio = EI / getShearRigidity(params);
+    const sTerms = mTerms.filter(t => t.n !== 0);
+
+    // Integration constants: EIθ = EIθ* + C1, EIv = EIv* + C1·x + C2
+    const slopeStar = (x: number) => evalSingularity(tTerms, x);
+    const deflStar = (x: number) => evalSingularity(dTerms, x) - shearRatio * evalSingularity(sTerms, x);
+    let C1 = 0, C2 = 0;
+    let bcHtml = '';
+    const fixed = supports.find(s => s.type === 'fixed');
+    const pins = supports.filter(s => s.type !== 'fixed');
+    const pinA = pins[0];
+    const pinB = pins.find(s => pinA && Math.abs(s.x - pinA.x) > SEGMENT_TOL);
+
+    if (fixed) {
+        const a = fixed.x;
+        C1 = -slopeStar(a);
+        C2 = -deflStar(a) - C1 * a;
+        bcHtml += `<div>固定端 \\( x = ${num(a)} \\): \\( \\theta = 0,\\; v = 0 \\)</div>`;
+        bcHtml += `<div>\\[ EI\\theta(${num(a)}) = ${num(slopeStar(a))} + C_1 = 0 \\;\\Rightarrow\\; C_1 = ${num(C1)} \\]</div>`;
+        bcHtml += `<div>\\[ EIv(${num(a)}) = ${num(deflStar(a))}${signed(C1)}(${num(a)}) + C_2 = 0 \\;\\Rightarrow\\; C_2 = ${num(C2)} \\]</div>`;
+    } else if (pinA && pinB) {
+        const a = pinA.x, b = pinB.x;
+        C1 = -(deflStar(b) - deflStar(a)) / (b - a);
+        C2 = -deflStar(a) - C1 * a;
+        bcHtml += `<div>支承 \\( x = ${num(a)} \\) 與 \\( x = ${num(b)} \\): \\( v = 0 \\)</div>`;
+        bcHtml += `<div>\\[ EIv(${num(a)}) = ${num(deflStar(a))} + C_1(${num(a)}) + C_2 = 0 \\]</div>`;
+        bcHtml += `<div>\\[ EIv(${num(b)}) = ${num(deflStar(b))} + C_1(${num(b)}) + C_2 = 0 \\]</div>`;
+        bcHtml += `<div>\\[ \\Rightarrow\\; C_1 = ${num(C1)}, \\quad C_2 = ${num(C2)} \\]</div>`;
+    } else {
+        bcHtml += `<div class="text-xs text-amber-400">支承不足，無法決定積分常數 (Unstable supports)</div>`;
+    }
+
+    // Check against the segment-by-segment diagrams (the first of a repeated x is the left limit)
+    const { xs } = data;
+    const diff = { V: 0, M: 0, theta: 0, v: 0 };
+    const peak = { V: 1e-12, M: 1e-12, theta: 1e-18, v: 1e-18 };
+    xs.forEach((x, i) => {
+        const side = (i + 1 < xs.length && Math.abs(xs[i + 1] - x) < SEGMENT_TOL) || i === xs.length - 1 ? 'left' : 'right';
+        const V = evalSingularity(vTerms, x, side);
+        const M = evalSingularity(mTerms, x, side);
+        const theta = EI > 0 ? (slopeStar(x) + C1) / EI : 0;
+        const v = EI > 0 ? (deflStar(x) + C1 * x + C2) / EI : 0;
+        diff.V = Math.max(diff.V, Math.abs(V - data.Vs[i]));
+        diff.M = Math.max(diff.M, Math.abs(M - data.Ms[i]));
+        diff.theta = Math.max(diff.theta, Math.abs(theta - data.thetas[i]));
+        diff.v = Math.max(diff.v, Math.abs(v - data.vs[i]));
+        peak.V = Math.max(peak.V, Math.abs(data.Vs[i]));
+        peak.M = Math.max(peak.M, Math.abs(data.Ms[i]));
+        peak.theta = Math.max(peak.theta, Math.abs(data.thetas[i]));
+        peak.v = Math.max(peak.v, Math.abs(data.vs[i]));
+    });
+    const errors = { V: diff.V / peak.V, M: diff.M / peak.M, theta: diff.theta / peak.theta, v: diff.v / peak.v };
+    const matches = Object.values(errors).every(e => e < MACAULAY_TOL);
+
+    // 1. Loading function
+    let html = `<div class="text-xs text-slate-400 mb-1">1. 載重函數 (Loading Function)，向上為正，支承反力視為外力</div>`;
+    html += `<div class="text-xs text-slate-500 mb-1">\\( \\langle x - a \\rangle^{n} = (x - a)^{n} \\) 當 \\( x \\ge a \\)，否則為 0；\\( n = -1 \\) 為集中力，\\( n = -2 \\) 為集中彎矩</div>`;
+    html += `<div class="mb-2">`;
+    rows.forEach(r => { html += `<div>\\( ${r.name}: \\; ${r.expr} \\)</div>`; });
+    html += `</div>`;
+    html += `<div>\\[ q(x) = ${formatSingularity(qTerms)} \\]</div>`;
+
+    // 2. Integration
+    html += `<div class="text-xs text-slate-400 mb-1">2. 逐次積分 (Integration)</div>`;
+    html += `<div class="text-xs text-slate-500 mb-1">\\( \\int \\langle x - a \\rangle^{n} dx = \\langle x - a \\rangle^{n+1} \\) (n &lt; 0)，\\( \\frac{\\langle x - a \\rangle^{n+1}}{n+1} \\) (n \\( \\ge \\) 0)；反力已含於 q(x)，故 V、M 無積分常數</div>`;
+    html += `<div>\\[ V(x) = \\int q\\,dx = ${formatSingularity(vTerms)} \\]</div>`;
+    html += `<div>\\[ M(x) = \\int V\\,dx = ${formatSingularity(mTerms)} \\]</div>`;
+    html += `<div>\\[ EI\\theta(x) = \\int M\\,dx = ${formatSingularity(tTerms)} + C_1 \\]</div>`;
+    html += `<div>\\[ EIv(x) = \\iint M\\,dx^2 = ${formatSingularity(dTerms)} + C_1x + C_2 \\]</div>`;
+    if (shearRatio > 0) {
+        html += `<div class="text-xs text-slate-400 mb-1">Timoshenko 剪力變形: \\( \\frac{dv}{dx} = \\theta - \\frac{V}{\\kappa GA} \\)，\\( \\frac{EI}{\\kappa GA} = ${num(shearRatio)} \\)</div>`;
+        html += `<div>\\[ EIv_s(x) = -\\frac{EI}{\\kappa GA}\\int V\\,dx = -${num(shearRatio)}\\left[ ${formatSingularity(sTerms)} \\right] \\]</div>`;
+    }
+
+    // 3. Boundary conditions
+    html += `<div class="text-xs text-slate-400 mb-1">3. 邊界條件 (Boundary Conditions)</div>`;
+    html += bcHtml;
+
+    // 4. Result and check
+    html += `<div class="text-xs text-slate-400 mb-1">4. 結果 (Result)，\\( EI = ${EI.toExponential(3)} \\; \\mathrm{N \\cdot m^2} \\)</div>`;
+    html += `<div class="result-box">\\( EI\\theta(x) = ${formatSingularity(tTerms)}${signed(C1)} \\) <br> \\( EIv(x) = ${formatSingularity(dTerms)}${shearRatio > 0 ? ` - ${num(shearRatio)}\\left[ ${formatSingularity(sTerms)} \\right]` : ''}${signed(C1)}x${signed(C2)} \\)</div>`;
+    html += `<div class="text-xs ${matches ? 'text-emerald-400' : 'text-red-400'} mt-1">與分段法比對 (0 ≤ x ≤ ${num(L)}): `;
+    html += `max 相對誤差 V ${errors.V.toExponential(1)}, M ${errors.M.toExponential(1)}, θ ${errors.theta.toExponential(1)}, v ${errors.v.toExponential(1)} ${matches ? '✓ 一致' : '✗ 不一致'}</div>`;
+
+    return { html, errors, matches };
+};
@@ -0,0 +1,249 @@
+import { SimulationParams, TransientParams, DynamicLoadType } from '../types';
+import { calculateSectionProperties } from './physics';
+import { assembleDynamicSystem, expandNodalValues, calculateModes, sampleModeShape } from './modalAnalysis';
+import { choleskyLower, forwardSubstitute, backSubstitute, solveLinearSystem } from './linearAlgebra';
+
+/**
+ * Time-history response to a dynamic point load: M·ü + C·u̇ + K·u = F(t) integrated with
+ * Newmark-β (average acceleration, unconditionally stable) and Rayleigh damping C = α·M + β·K.
+ */
+
+export const DYNAMIC_LOAD_TYPES: [DynamicLoadType, string][] = [
+    ['harmonic', '簡諧 (Harmonic)'],
+    ['step', '步階 (Step)'],
+    ['halfSine', '半正弦脈衝 (Half-sine)'],
+    ['series', '時間序列 (CSV)']
+];
+
+const NEWMARK_BETA = 0.25;
+const NEWMARK_GAMMA = 0.5;
+const MAX_STEPS = 5000;
+const MAX_FRAMES = 300;
+
+/**
+ * Load magnitude F(t) in N (downward positive).
+ */
+export const getDynamicForce = (transient: TransientParams, t: number): number => {
+    const { loadType, amplitude, frequency, pulseDuration, series } = transient;
+    switch (loadType) {
+        case 'harmonic':
+            return amplitude * Math.sin(2 * Math.PI * frequency * t);
+        case 'step':
+            return t >= 0 ? amplitude : 0;
+        case 'halfSine':
+            return t >= 0 && t <= pulseDuration ? amplitude * Math.sin(Math.PI * t / pulseDuration) : 0;
+        case 'series': {
+            // Linear interpolation, zero outside the recorded range
+            if (series.length === 0 || t < series[0][0] || t > series[series.length - 1][0]) return 0;
+            const k = series.findIndex(([ti]) => ti >= t);
+            if (k <= 0) return series[Math.max(k, 0)][1];
+            const [t0, f0] = series[k - 1];
+            const [t1, f1] = series[k];
+            return t1 > t0 ? f0 + (f1 - f0) * (t - t0) / (t1 - t0) : f1;
+        }
+    }
+};
+
+/**
+ * Parses "t, F" rows (comma, semicolon, tab or space separated; header and blank lines skipped),
+ * sorted by time. Returns null when no valid row is found.
+ */
+export const parseTimeSeries = (text: string): [number, number][] | null => {
+    const rows = text
+        .split(/\r?\n/)
+        .map(line => line.trim().split(/[,;\t ]+/).map(Number))
+        .filter(cols => cols.length >= 2 && Number.isFinite(cols[0]) && Number.isFinite(cols[1]))
+        .map(cols => [cols[0], cols[1]] as [number, number])
+        .sort((a, b) => a[0] - b[0]);
+    return rows.length > 0 ? rows : null;
+};
+
+export interface StationHistory {
+    x: number;
+    v: number[];        // Deflection (m, up positive)
+    sigma: number[];    // Extreme-fibre bending stress M·c/I (Pa, positive for sagging)
+    vStatic: number;    // Deflection under the peak load applied statically
+    vPeak: number;      // max |v(t)|
+    sigmaPeak: number;  // max |σ(t)|
+    daf: number;        // Dynamic amplification vPeak / |vStatic|
+}
+
+export interface TransientFrame {
+    t: number;
+    v: number[];     // Nodal deflections (m)
+    theta: number[]; // Nodal rotations
+}
+
+export interface TransientResult {
+    times: number[];
+    force: number[];
+    stations: StationHistory[];
+    xs: number[];            // Node positions of the frames
+    frames: TransientFrame[];
+    dt: number;              // Time step used (s)
+    rayleigh: { alpha: number; beta: number };
+    f1: number;              // Fundamental frequency (Hz)
+    daf: number;             // Amplification at the station with the largest static deflection
+    theoreticalDAF: number | null; // Single-degree-of-freedom value for harmonic and step loads
+    isStable: boolean;
+}
+
+const matVec = (A: number[][], x: number[]) => A.map(row => {
+    let sum = 0;
+    for (let j = 0; j < x.length; j++) sum += row[j] * x[j];
+    return sum;
+});
+
+/**
+ * Consistent nodal load of a downward point load F at x (Hermite shape functions of the element).
+ */
+const pointLoadVector = (xs: number[], free: number[], x: number, F: number) => {
+    const full = new Array(xs.length * 2).fill(0);
+    let e = 0;
+    while (e < xs.length - 2 && xs[e + 1] < x) e++;
+    const h = xs[e + 1] - xs[e];
+    const s = h > 0 ? Math.max(0, Math.min(1, (x - xs[e]) / h)) : 0;
+    const N = [1 - 3 * s * s + 2 * s ** 3, h * (s - 2 * s * s + s ** 3), 3 * s * s - 2 * s ** 3, h * (s ** 3 - s * s)];
+    N.forEach((Ni, i) => { full[2 * e + i] -= F * Ni; });
+    return free.map(d => full[d]);
+};
+
+/**
+ * Curvature v'' at x from the nodal values (Hermite second derivatives).
+ */
+const curvatureAt = (xs: number[], v: number[], theta: number[], x: number) => {
+    let e = 0;
+    while (e < xs.length - 2 && xs[e + 1] <= x) e++;
+    const h = xs[e + 1] - xs[e];
+    if (!(h > 0)) return 0;
+    const s = Math.max(0, Math.min(1, (x - xs[e]) / h));
+    const d2N = [(-6 + 12 * s) / (h * h), (-4 + 6 * s) / h, (6 - 12 * s) / (h * h), (-2 + 6 * s) / h];
+    const d = [v[e], theta[e], v[e + 1], theta[e + 1]];
+    return d2N.reduce((sum, Ni, i) => sum + Ni * d[i], 0);
+};
+
+/**
+ * Single-degree-of-freedom amplification: steady-state harmonic 1/√((1-r²)² + (2ζr)²), step 1 + e^(-ζπ/√(1-ζ²)).
+ */
+const sdofAmplification = (transient: TransientParams, f1: number): number | null => {
+    const zeta = transient.dampingRatio;
+    if (transient.loadType === 'harmonic' && f1 > 0) {
+        const r = transient.frequency / f1;
+        return 1 / Math.sqrt((1 - r * r) ** 2 + (2 * zeta * r) ** 2);
+    }
+    if (transient.loadType === 'step' && zeta < 1) return 1 + Math.exp(-zeta * Math.PI / Math.sqrt(1 - zeta * zeta));
+    return null;
+};
+
+/**
+ * Newmark-β time history of the beam under params.transient, starting at rest.
+ */
+export const calculateTransientResponse = (params: SimulationParams): TransientResult => {
+    const transient = params.transient;
+    const L = params.length;
+    const xLoad = Math.max(0, Math.min(L, transient.x));
+    const stationXs = transient.stations.map(x => Math.max(0, Math.min(L, x)));
+    const steps = Math.max(1, Math.min(MAX_STEPS, Math.ceil(transient.duration / Math.max(transient.timeStep, 1e-6))));
+    const dt = transient.duration / steps;
+
+    const modal = calculateModes(params, 2);
+    const system = assembleDynamicSystem(params, [xLoad, ...stationXs]);
+    const omegas = modal.modes.map(m => m.omega);
+    const f1 = modal.modes[0]?.frequency ?? 0;
+    const empty: TransientResult = {
+        times: [], force: [], stations: [], xs: [], frames: [], dt,
+        rayleigh: { alpha: 0, beta: 0 }, f1, daf: 0, theoreticalDAF: null, isStable: false
+    };
+    if (!system || modal.rigidModes > 0 || omegas.length === 0) return empty;
+
+    const { xs, free, Kff, Mff, EI } = system;
+    const n = free.length;
+    const { I, cTop, cBottom } = calculateSectionProperties(params);
+    const c = Math.max(cTop, cBottom);
+
+    // Rayleigh coefficients matching ζ at the first two modes
+    const zeta = transient.dampingRatio;
+    const w1 = omegas[0];
+    const w2 = omegas[1] ?? w1;
+    const alpha = 2 * zeta * w1 * w2 / (w1 + w2);
+    const beta = 2 * zeta / (w1 + w2);
+    const C = Kff.map((row, i) => row.map((k, j) => alpha * Mff[i][j] + beta * k));
+
+    // Newmark constants and the effective stiffness K̂ = K + a1·M + a4·C
+    const a1 = 1 / (NEWMARK_BETA * dt * dt);
+    const a2 = 1 / (NEWMARK_BETA * dt);
+    const a3 = 1 / (2 * NEWMARK_BETA) - 1;
+    const a4 = NEWMARK_GAMMA / (NEWMARK_BETA * dt);
+    const a5 = NEWMARK_GAMMA / NEWMARK_BETA - 1;
+    const a6 = dt * (NEWMARK_GAMMA / (2 * NEWMARK_BETA) - 1);
+    const Lk = choleskyLower(Kff.map((row, i) => row.map((k, j) => k + a1 * Mff[i][j] + a4 * C[i][j])));
+    const Lm = choleskyLower(Mff);
+    if (!Lk || !Lm) return empty;
+
+    const unitLoad = pointLoadVector(xs, free, xLoad, 1);
+    const times = Array.from({ length: steps + 1 }, (_, i) => i * dt);
+    const force = times.map(t => getDynamicForce(transient, t));
+
+    let u = new Array(n).fill(0);
+    let vel = new Array(n).fill(0);
+    let acc = backSubstitute(Lm, forwardSubstitute(Lm, unitLoad.map(f => f * force[0])));
+
+    const frameEvery = Math.max(1, Math.ceil(steps / MAX_FRAMES));
+    const frames: TransientFrame[] = [];
+    const histories = stationXs.map(() => ({ v: [] as number[], sigma: [] as number[] }));
+    const record = (i: number) => {
+        const nodal = expandNodalValues(system, u);
+        histories.forEach((h, k) => {
+            h.v.push(sampleModeShape({ xs, ...nodal }, stationXs[k]).v);
+            h.sigma.push(I > 0 ? EI * curvatureAt(xs, nodal.v, nodal.theta, stationXs[k]) * c / I : 0);
+        });
+        if (i % frameEvery === 0) frames.push({ t: times[i], ...nodal });
+    };
+    record(0);
+
+    for (let i = 1; i <= steps; i++) {
+        const mTerm = matVec(Mff, u.map((ui, j) => a1 * ui + a2 * vel[j] + a3 * acc[j]));
+        const cTerm = matVec(C, u.map((ui, j) => a4 * ui + a5 * vel[j] + a6 * acc[j]));
+        const rhs = unitLoad.map((f, j) => f * force[i] + mTerm[j] + cTerm[j]);
+        const uNext = backSubstitute(Lk, forwardSubstitute(Lk, rhs));
+        const accNext = uNext.map((un, j) => a1 * (un - u[j]) - a2 * vel[j] - a3 * acc[j]);
+        vel = vel.map((vj, j) => vj + dt * ((1 - NEWMARK_GAMMA) * acc[j] + NEWMARK_GAMMA * accNext[j]));
+        u = uNext;
+        acc = accNext;
+        record(i);
+    }
+
+    // Static reference: the peak load magnitude applied slowly in the same direction
+    const peak = force.reduce((best, f) => Math.abs(f) > Math.abs(best) ? f : best, 0);
+    const uStatic = solveLinearSystem(Kff, unitLoad.map(f => f * peak)) ?? new Array(n).fill(0);
+    const staticNodal = expandNodalValues(system, uStatic);
+
+    const stations: StationHistory[] = stationXs.map((x, k) => {
+        const vStatic = sampleModeShape({ xs, ...staticNodal }, x).v;
+        const vPeak = Math.max(...histories[k].v.map(Math.abs));
+        return {
+            x,
+            v: histories[k].v,
+            sigma: histories[k].sigma,
+            vStatic,
+            vPeak,
+            sigmaPeak: Math.max(...histories[k].sigma.map(Math.abs)),
+            daf: Math.abs(vStatic) > 0 ? vPeak / Math.abs(vStatic) : 0
+        };
+    });
+    const governing = stations.reduce<StationHistory | null>((best, s) => !best || Math.abs(s.vStatic) > Math.abs(best.vStatic) ? s : best, null);
+
+    return {
+        times,
+        force,
+        stations,
+        xs,
+        frames,
+        dt,
+        rayleigh: { alpha, beta },
+        f1,
+        daf: governing?.daf ?? 0,
+        theoreticalDAF: sdofAmplification(transient, f1),
+        isStable: true
+    };
+};